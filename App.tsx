@@ -1,11 +1,63 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { Camera, Sparkles, Download, ArrowRight, Wand2, Info } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Camera, Sparkles, Download, ArrowRight, Wand2, Info, ShieldCheck, ShieldAlert, Layers, Archive, Settings, History, GalleryHorizontal, BarChart3, Brush } from 'lucide-react';
 import { Button } from './components/Button';
 import { RatioSelector } from './components/RatioSelector';
 import { ImageUploader } from './components/ImageUploader';
-import { AspectRatio, GenerationStatus } from './types';
-import { generateExpandedImage, blobToBase64 } from './services/geminiService';
+import { FormatGallery } from './components/FormatGallery';
+import { BatchItem, BatchQueuePanel } from './components/BatchQueuePanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PromptPanel } from './components/PromptPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { VariantPicker } from './components/VariantPicker';
+import { ResultInspector } from './components/ResultInspector';
+import { ErrorNotice } from './components/ErrorNotice';
+import { ExportDialog } from './components/ExportDialog';
+import { CarouselPanel } from './components/CarouselPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { MaskEditor } from './components/MaskEditor';
+import { BatchInput, FormatId, FormatJob, GeneratedImage, ImageSize, GenerationStatus, HistoryEntry, PlacementLayout, StylePreset, VariantJob } from './types';
+import { expandImage } from './services/expansionPipeline';
+import { describeDimensions, formatRatio } from './services/ratioService';
+import { INSTAGRAM_FORMATS, INSTAGRAM_PORTRAIT, getFormat } from './services/formatService';
+import { createRateLimiter, runWithConcurrency } from './services/concurrencyService';
+import { BatchQueue, createBatchQueue } from './services/batchQueueService';
+import { downloadZip, triggerDownload } from './services/downloadService';
+import { AppSettings, loadSettings, saveSettings } from './services/settingsService';
+import { createProvider, providerRequiresApiKey } from './services/providerService';
+import { BUILT_IN_PRESETS, loadCustomPresets, saveCustomPresets } from './services/presetService';
+import { ImageInputError, NormalizedImage, normalizeImage } from './services/inputService';
+import { GenerationError, RecoveryAction, isCancelled, toGenerationError } from './services/errorService';
+import { ExportOptions, filenameValues, formatFilename, renderExport } from './services/exportService';
+import { OverlayKind } from './services/overlayService';
+import { RESOLUTIONS, nativeImageSize } from './services/upscaleService';
+import { assertWithinBudget, checkBudget, estimateCost, formatCost } from './services/usageService';
+import {
+  HistoryDraft,
+  HistoryPolicy,
+  StorageUsage,
+  applyHistoryPolicy,
+  clearHistory,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  getStorageUsage,
+  listHistory,
+  saveHistoryEntry,
+} from './services/historyService';
+
+// Formats generated in parallel in "generate all formats" mode
+const FORMAT_CONCURRENCY = 2;
+const BATCH_CONCURRENCY = 2;
+const BATCH_REQUESTS_PER_MINUTE = 10;
+const VARIANT_OPTIONS = [1, 2, 3, 4];
+const VARIANT_CONCURRENCY = 2;
+
+// Keeps the preferred variant while it is usable, otherwise the best scoring one
+const pickVariant = (variants: VariantJob[], preferred: string | null): string | null => {
+  const usable = variants.filter((variant) => variant.result && !variant.rejected);
+  if (usable.some((variant) => variant.id === preferred)) return preferred;
+  const score = (variant: VariantJob) => variant.result?.quality?.score ?? 0;
+  return usable.sort((a, b) => score(b) - score(a))[0]?.id ?? null;
+};
 
 // Add type definition for the AI Studio window object
 // We extend the existing AIStudio interface which is already declared on Window
@@ -16,27 +68,85 @@ declare global {
   }
 }
 
+// Only set when the app runs inside AI Studio
+const getAiStudio = (): AIStudio | undefined => (window as Window & { aistudio?: AIStudio }).aistudio;
+
 const App: React.FC = () => {
   const [apiKeySet, setApiKeySet] = useState<boolean>(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [showMaskEditor, setShowMaskEditor] = useState<boolean>(false);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [originalImageBase64, setOriginalImageBase64] = useState<string | null>(null);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [selectedRatio, setSelectedRatio] = useState<AspectRatio>(AspectRatio.PORTRAIT);
+  const [originalSource, setOriginalSource] = useState<NormalizedImage | null>(null);
+  // Upload's file name without extension, used in export file names
+  const [originalName, setOriginalName] = useState<string>('insta-expand');
+  const [showExport, setShowExport] = useState<boolean>(false);
+  const [variants, setVariants] = useState<VariantJob[]>([]);
+  const [chosenVariantId, setChosenVariantId] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [selectedRatio, setSelectedRatio] = useState<FormatId>(INSTAGRAM_PORTRAIT);
   const [status, setStatus] = useState<GenerationStatus>('idle');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [errorAction, setErrorAction] = useState<RecoveryAction | null>(null);
+  const [layout, setLayout] = useState<PlacementLayout | null>(null);
+  const [overlays, setOverlays] = useState<OverlayKind[]>([]);
+  const [prompt, setPrompt] = useState<string>('');
+  const [presets, setPresets] = useState<StylePreset[]>(() => [...BUILT_IN_PRESETS, ...loadCustomPresets()]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [generateAll, setGenerateAll] = useState<boolean>(false);
+  const [carouselMode, setCarouselMode] = useState<boolean>(false);
+  const [formatJobs, setFormatJobs] = useState<Partial<Record<FormatId, FormatJob>>>({});
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchPaused, setBatchPaused] = useState<boolean>(true);
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(BATCH_CONCURRENCY);
+  const [requestsPerMinute, setRequestsPerMinute] = useState<number>(BATCH_REQUESTS_PER_MINUTE);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [rerunPending, setRerunPending] = useState<boolean>(false);
+
+  const provider = useMemo(() => createProvider(settings), [settings]);
+  // An own key counts as set once entered; a bad one surfaces on the first request
+  const keyReady = settings.gemini.keySource === 'own' ? settings.gemini.apiKey.trim() !== '' : apiKeySet;
+  const canGenerate = keyReady || !providerRequiresApiKey(settings.provider);
+
+  // The preset is only credited while its prompt is used unchanged
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId);
+  const promptOptions = {
+    prompt,
+    presetName: selectedPreset && selectedPreset.prompt === prompt ? selectedPreset.name : undefined,
+  };
+
+  // Batch jobs read the current settings when they start, not when queued
+  const batchSettingsRef = useRef({ ratio: selectedRatio, generateAll, provider, promptOptions, history: settings.history, resolution: settings.resolution, usage: settings.usage, quality: settings.quality });
+  batchSettingsRef.current = { ratio: selectedRatio, generateAll, provider, promptOptions, history: settings.history, resolution: settings.resolution, usage: settings.usage, quality: settings.quality };
+  const throttleRef = useRef(createRateLimiter(BATCH_REQUESTS_PER_MINUTE));
+  const queueRef = useRef<BatchQueue<BatchInput, GeneratedImage[]> | null>(null);
+  // History entry of the current variants, updated when another one is starred
+  const variantHistoryIdRef = useRef<string | null>(null);
+  // Aborts the generation in progress
+  const abortRef = useRef<AbortController | null>(null);
+  const promptSectionRef = useRef<HTMLElement>(null);
+
+  // The starred variant is the result that gets downloaded and kept in history
+  const chosenVariant = variants.find((variant) => variant.id === chosenVariantId);
+  const generatedImage = chosenVariant?.result ?? null;
+  const variantRatio = variants.find((variant) => variant.result)?.result?.ratio ?? selectedRatio;
+  const attempt = variants[0]?.attempt ?? 1;
 
   // Initialize API Key check
   useEffect(() => {
     const checkApiKey = async () => {
       try {
-        if (window.aistudio && window.aistudio.hasSelectedApiKey) {
-          const hasKey = await window.aistudio.hasSelectedApiKey();
+        const aiStudio = getAiStudio();
+        if (aiStudio && aiStudio.hasSelectedApiKey) {
+          const hasKey = await aiStudio.hasSelectedApiKey();
           setApiKeySet(hasKey);
         } else {
-            // Fallback for dev environments where window.aistudio might not exist immediately
-            // In a real deployed extension scenario, this should be robust.
-            // For now, if missing, we can't proceed with high-quality generation.
-            console.warn("window.aistudio not found. Image generation may fail if key is not injected.");
+          // Outside AI Studio only the dev server provides a key this way
+          setApiKeySet(Boolean(process.env.API_KEY));
         }
       } catch (e) {
         console.error("Error checking API key", e);
@@ -45,10 +155,43 @@ const App: React.FC = () => {
     checkApiKey();
   }, []);
 
+  const refreshHistory = async () => {
+    try {
+      setHistoryEntries(await listHistory());
+      setStorageUsage(await getStorageUsage());
+    } catch (e) {
+      console.error("Could not read history", e);
+    }
+  };
+
+  useEffect(() => {
+    refreshHistory();
+  }, []);
+
+  // History is best effort: a failed save must not fail the generation
+  const recordHistory = async (draft: HistoryDraft, policy: HistoryPolicy = settings.history): Promise<string | null> => {
+    if (draft.results.length === 0) return null;
+    try {
+      const entry = await createHistoryEntry(draft);
+      await saveHistoryEntry(entry, policy);
+      await refreshHistory();
+      return entry.id;
+    } catch (e) {
+      console.error("Could not save to history", e);
+      return null;
+    }
+  };
+
   const handleSelectKey = async () => {
+    const aiStudio = getAiStudio();
+    // Own keys are entered in settings
+    if (settings.gemini.keySource === 'own' || !aiStudio) {
+      setShowSettings(true);
+      return;
+    }
     try {
-      if (window.aistudio && window.aistudio.openSelectKey) {
-        await window.aistudio.openSelectKey();
+      if (aiStudio.openSelectKey) {
+        await aiStudio.openSelectKey();
         // Assume success as per guidelines to avoid race condition
         setApiKeySet(true);
       }
@@ -59,60 +202,532 @@ const App: React.FC = () => {
   };
 
   const handleImageUpload = async (file: File) => {
+    clearError();
+    try {
+      const normalized = await normalizeImage(file);
+      setOriginalImage(normalized.url);
+      setOriginalSource(normalized);
+      setOriginalName(file.name.replace(/\.[^.]+$/, '') || 'insta-expand');
+      clearVariants();
+      setLayout(null);
+    } catch (e) {
+      console.error("Failed to read upload", e);
+      setErrorMsg(e instanceof ImageInputError
+        ? e.message
+        : "Failed to process image. Please try another one.");
+    }
+  };
+
+  const getBatchQueue = () => {
+    if (!queueRef.current) {
+      queueRef.current = createBatchQueue<BatchInput, GeneratedImage[]>({
+        paused: true,
+        concurrency: BATCH_CONCURRENCY,
+        worker: async (input, signal) => {
+          const normalized = await normalizeImage(input.file);
+          const source = { url: normalized.url, base64: normalized.base64, mimeType: normalized.mimeType };
+          const { ratio, generateAll: allFormats, provider: batchProvider, promptOptions: batchPrompt, history, resolution, usage, quality } = batchSettingsRef.current;
+          const results: GeneratedImage[] = [];
+          try {
+            for (const target of allFormats ? INSTAGRAM_FORMATS : [ratio]) {
+              results.push(await expandImage(source, target, {
+                ...batchPrompt,
+                provider: batchProvider,
+                resolution,
+                qualityThreshold: quality.threshold,
+                maxAttempts: quality.maxAttempts,
+                signal,
+                throttle: async () => {
+                  await throttleRef.current();
+                  if (providerRequiresApiKey(batchProvider.id)) await assertWithinBudget(usage);
+                },
+              }));
+            }
+          } finally {
+            URL.revokeObjectURL(normalized.url);
+          }
+          await recordHistory({ original: normalized.blob, results, layout: null }, history);
+          return results;
+        },
+        onChange: (items, paused) => {
+          setBatchItems(items);
+          setBatchPaused(paused);
+        },
+      });
+    }
+    return queueRef.current;
+  };
+
+  const handleMultipleUpload = (files: File[]) => {
+    handleClear();
+    getBatchQueue().add(files.map((file) => ({ file, url: URL.createObjectURL(file) })));
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setBatchConcurrency(value);
+    getBatchQueue().setConcurrency(value);
+  };
+
+  const handleRequestsPerMinuteChange = (value: number) => {
+    setRequestsPerMinute(value);
+    throttleRef.current = createRateLimiter(value);
+  };
+
+  const handleBatchClear = () => {
+    batchItems.forEach((item) => URL.revokeObjectURL(item.input.url));
+    getBatchQueue().clear();
+  };
+
+  const handleBatchExport = async () => {
     try {
-      const url = URL.createObjectURL(file);
-      setOriginalImage(url);
-      setGeneratedImage(null);
-      setErrorMsg(null);
-      
-      const b64 = await blobToBase64(file);
-      setOriginalImageBase64(b64);
+      const entries = await Promise.all(batchItems.flatMap((item, index) => {
+        const original = `${String(index + 1).padStart(3, '0')}-${item.input.file.name.replace(/\.[^.]+$/, '')}`;
+        return (item.result ?? []).map((result) => exportEntry(result.url, result.ratio, original));
+      }));
+      if (entries.length > 0) {
+        downloadZip(entries, `insta-expand-batch-${Date.now()}.zip`);
+      }
     } catch (e) {
-      setErrorMsg("Failed to process image. Please try another one.");
+      reportExportError(e);
     }
   };
 
+  const isBatch = batchItems.length > 0;
+
   const handleClear = () => {
     setOriginalImage(null);
-    setOriginalImageBase64(null);
-    setGeneratedImage(null);
+    setOriginalSource(null);
+    clearVariants();
+    setLayout(null);
+    setFormatJobs({});
     setStatus('idle');
   };
 
-  const handleGenerate = async () => {
-    if (!originalImageBase64 || !apiKeySet) return;
-    
-    setStatus('generating');
+  const clearError = () => {
     setErrorMsg(null);
+    setErrorAction(null);
+  };
+
+  // Starts a cancellable generation run
+  const startRun = () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('generating');
+    clearError();
+    return controller;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Shows the most relevant error of a run together with its recovery action
+  const reportErrors = (errors: GenerationError[]) => {
+    const error = errors.find((e) => e.code === 'invalid-key') ?? errors.find((e) => !isCancelled(e));
+    if (!error) return;
+    // The key gate only applies to providers that need one
+    if (error.code === 'invalid-key' && providerRequiresApiKey(settings.provider) && settings.gemini.keySource === 'aistudio') {
+      setApiKeySet(false);
+    }
+    setErrorMsg(error.message);
+    setErrorAction(error.action);
+  };
+
+  const handleErrorAction = (action: RecoveryAction) => {
+    switch (action) {
+      case 'retry':
+        if (generateAll) handleGenerateAll();
+        else if (showVariantPicker) handleRegenerateVariants();
+        else handleGenerate();
+        break;
+      case 'select-key':
+        handleSelectKey();
+        break;
+      case 'edit-prompt':
+        promptSectionRef.current?.scrollIntoView({ behavior: 'smooth' });
+        promptSectionRef.current?.querySelector('textarea')?.focus();
+        break;
+      case 'open-settings':
+        setShowSettings(true);
+        break;
+      case 'open-usage':
+        setShowUsage(true);
+        break;
+    }
+  };
+
+  // Only the Gemini provider is billed
+  const billed = providerRequiresApiKey(settings.provider);
+
+  // Checked before each billed request so a long run stops at the cap
+  const budgetGuard = billed ? () => assertWithinBudget(settings.usage) : undefined;
+
+  // Blocks a run once the budget cap is reached and asks before one that
+  // would likely cross it
+  const confirmBudget = (requests: number): boolean => {
+    if (!billed) return true;
+    const imageSize = nativeImageSize(settings.resolution, provider.maxImageSize);
+    const estimate = estimateCost(requests, settings.gemini.model, imageSize, settings.usage.prices);
+    const budget = checkBudget(settings.usage, estimate);
+    if (budget.state === 'blocked') {
+      const error = new GenerationError('budget');
+      setErrorMsg(error.message);
+      setErrorAction(error.action);
+      return false;
+    }
+    if (budget.state === 'warn') {
+      return window.confirm(
+        `This run costs about ${formatCost(estimate)}. ${formatCost(budget.spent)} of your ${formatCost(budget.cap!)} budget is used, so it may go over the cap. Continue?`
+      );
+    }
+    return true;
+  };
+
+  const handleBatchResume = () => {
+    const waiting = batchItems.filter((item) => item.status === 'idle').length;
+    if (!confirmBudget(waiting * (generateAll ? INSTAGRAM_FORMATS.length : 1))) return;
+    clearError();
+    getBatchQueue().resume();
+  };
+
+  const clearVariants = () => {
+    setVariants([]);
+    setChosenVariantId(null);
+    variantHistoryIdRef.current = null;
+  };
+
+  const recordVariant = async (result: GeneratedImage) => {
+    if (!originalSource) return;
+    variantHistoryIdRef.current = await recordHistory({
+      id: variantHistoryIdRef.current ?? undefined,
+      original: originalSource.blob,
+      results: [result],
+      layout,
+    });
+  };
+
+  // Generates the variants in `ids`. `base` is the variant list the run starts
+  // from, as state set during the run is not visible here.
+  const runVariants = async (base: VariantJob[], ids: string[], preferred: string | null) => {
+    if (!originalSource) return;
+
+    const source = originalSource;
+    const ratio = base.find((variant) => variant.result)?.result?.ratio ?? selectedRatio;
+    const updateVariant = (id: string, job: Partial<VariantJob>) =>
+      setVariants((prev) => prev.map((variant) => (variant.id === id ? { ...variant, ...job } : variant)));
+
+    const controller = startRun();
+    const results = new Map<string, GeneratedImage>();
+    const errors: GenerationError[] = [];
+    await runWithConcurrency(ids, VARIANT_CONCURRENCY, async (id) => {
+      if (errors.some((error) => error.code === 'invalid-key')) {
+        updateVariant(id, { status: 'error', rejected: false, result: undefined, error: "Skipped after an API key error." });
+        return;
+      }
+      updateVariant(id, { status: 'generating', attempt: 1, rejected: false, result: undefined, versions: undefined, error: undefined });
+      try {
+        const result = await expandImage(source, ratio, {
+          ...promptOptions,
+          provider,
+          layout,
+          resolution: settings.resolution,
+          qualityThreshold: settings.quality.threshold,
+          maxAttempts: settings.quality.maxAttempts,
+          signal: controller.signal,
+          throttle: budgetGuard,
+          onAttempt: (n) => updateVariant(id, { attempt: n }),
+        });
+        results.set(id, result);
+        updateVariant(id, { status: 'success', result });
+      } catch (err) {
+        const error = toGenerationError(err);
+        errors.push(error);
+        updateVariant(id, { status: 'error', error: error.message });
+      }
+    });
+    abortRef.current = null;
+
+    const finished = base.map((variant): VariantJob => {
+      if (!ids.includes(variant.id)) return variant;
+      const result = results.get(variant.id);
+      return result
+        ? { ...variant, status: 'success', rejected: false, result, versions: undefined }
+        : { ...variant, status: 'error', rejected: false, result: undefined, versions: undefined };
+    });
+    const chosen = pickVariant(finished, preferred);
+    setChosenVariantId(chosen);
+    setStatus(chosen ? 'success' : errors.every(isCancelled) ? 'idle' : 'error');
+    reportErrors(errors);
+
+    const chosenResult = finished.find((variant) => variant.id === chosen)?.result;
+    if (chosenResult && chosen !== preferred) {
+      recordVariant(chosenResult);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!originalImage || !originalSource || !canGenerate || !confirmBudget(variantCount)) return;
+
+    const stamp = Date.now().toString(36);
+    const fresh: VariantJob[] = Array.from({ length: variantCount }, (_, index) => ({
+      id: `variant-${stamp}-${index}`,
+      status: 'idle',
+      attempt: 1,
+      rejected: false,
+    }));
+    setVariants(fresh);
+    setChosenVariantId(null);
+    variantHistoryIdRef.current = null;
+    await runVariants(fresh, fresh.map((variant) => variant.id), null);
+  };
+
+  const handleRegenerateVariants = () => {
+    const ids = variants
+      .filter((variant) => variant.rejected || variant.status === 'error')
+      .map((variant) => variant.id);
+    if (ids.length > 0 && confirmBudget(ids.length)) runVariants(variants, ids, chosenVariantId);
+  };
+
+  const handleChooseVariant = (id: string) => {
+    const result = variants.find((variant) => variant.id === id)?.result;
+    if (!result || id === chosenVariantId) return;
+    setChosenVariantId(id);
+    recordVariant(result);
+  };
+
+  // Selecting a version makes it the variant's result, downloaded and kept in history
+  const handleVersionsChange = (versions: GeneratedImage[], current: number) => {
+    if (!chosenVariantId) return;
+    setVariants((prev) => prev.map((variant) => (
+      variant.id === chosenVariantId ? { ...variant, versions, result: versions[current] } : variant
+    )));
+    recordVariant(versions[current]);
+  };
+
+  const handleToggleReject = (id: string) => {
+    const next = variants.map((variant) => (variant.id === id ? { ...variant, rejected: !variant.rejected } : variant));
+    setVariants(next);
+    const chosen = pickVariant(next, chosenVariantId);
+    if (chosen !== chosenVariantId) {
+      setChosenVariantId(chosen);
+      const result = next.find((variant) => variant.id === chosen)?.result;
+      if (result) recordVariant(result);
+    }
+  };
+
+  const handleGenerateAll = async () => {
+    if (!originalImage || !originalSource || !canGenerate || !confirmBudget(INSTAGRAM_FORMATS.length)) return;
+
+    const source = originalSource;
+    const updateJob = (ratio: FormatId, job: Partial<FormatJob>) =>
+      setFormatJobs((prev) => ({ ...prev, [ratio]: { ...prev[ratio]!, ...job } }));
+
+    const controller = startRun();
+    setFormatJobs(Object.fromEntries(
+      INSTAGRAM_FORMATS.map((ratio) => [ratio, { status: 'idle', attempt: 1 }])
+    ));
+
+    const errors: GenerationError[] = [];
+    const results: GeneratedImage[] = [];
+    await runWithConcurrency(INSTAGRAM_FORMATS, FORMAT_CONCURRENCY, async (ratio) => {
+      if (errors.some((error) => error.code === 'invalid-key')) {
+        updateJob(ratio, { status: 'error', error: "Skipped after an API key error." });
+        return;
+      }
+      updateJob(ratio, { status: 'generating' });
+      try {
+        const result = await expandImage(source, ratio, {
+          ...promptOptions,
+          provider,
+          layout,
+          resolution: settings.resolution,
+          qualityThreshold: settings.quality.threshold,
+          maxAttempts: settings.quality.maxAttempts,
+          signal: controller.signal,
+          throttle: budgetGuard,
+          onAttempt: (n) => updateJob(ratio, { attempt: n }),
+        });
+        updateJob(ratio, { status: 'success', result });
+        results.push(result);
+      } catch (err) {
+        const error = toGenerationError(err);
+        errors.push(error);
+        updateJob(ratio, { status: 'error', error: error.message });
+      }
+    });
+    abortRef.current = null;
+
+    reportErrors(errors);
+    setStatus(results.length > 0 ? 'success' : errors.every(isCancelled) ? 'idle' : 'error');
+    // Keep the gallery order regardless of which format finished first
+    results.sort((a, b) => INSTAGRAM_FORMATS.indexOf(a.ratio) - INSTAGRAM_FORMATS.indexOf(b.ratio));
+    recordHistory({ original: source.blob, results, layout });
+  };
+
+  // Encodes an image with the saved export options, without the dialog
+  const exportImage = async (url: string, ratio: FormatId, original: string = originalName, variant: number = 1) => {
+    const exported = await renderExport(url, ratio, settings.export);
+    const values = filenameValues(original, ratio, variant, exported);
+    return { name: formatFilename(settings.export.filenameTemplate, values, exported.format), blob: exported.blob };
+  };
+
+  const exportEntry = async (url: string, ratio: FormatId, original?: string, variant?: number) => {
+    const { name, blob } = await exportImage(url, ratio, original, variant);
+    return { name, data: new Uint8Array(await blob.arrayBuffer()) };
+  };
+
+  const downloadBlob = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, name);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const reportExportError = (e: unknown) => {
+    console.error("Export failed", e);
+    setErrorMsg("The image could not be exported. Try another file format in the export options.");
+    setErrorAction(null);
+  };
+
+  const handleDownloadFormat = async (ratio: FormatId) => {
+    const result = formatJobs[ratio]?.result;
+    if (!result) return;
+    try {
+      const { name, blob } = await exportImage(result.url, result.ratio);
+      downloadBlob(blob, name);
+    } catch (e) {
+      reportExportError(e);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    const results = (Object.values(formatJobs) as FormatJob[])
+      .filter((job): job is FormatJob & { result: GeneratedImage } => !!job.result)
+      .map((job) => job.result);
+    try {
+      const entries = await Promise.all(results.map((result) => exportEntry(result.url, result.ratio)));
+      if (entries.length > 0) {
+        downloadZip(entries, `${originalName}-${Date.now()}.zip`);
+      }
+    } catch (e) {
+      reportExportError(e);
+    }
+  };
+
+  const handleExportOptionsChange = (options: ExportOptions) => {
+    handleSettingsChange({ ...settings, export: options });
+  };
+
+  const hasFormatJobs = Object.keys(formatJobs).length > 0;
+  const showVariantPicker = variants.length > 1;
+  const completedFormats = (Object.values(formatJobs) as FormatJob[]).filter((job) => job.status === 'success').length;
 
+  const handleSelectPreset = (preset: StylePreset | null) => {
+    setSelectedPresetId(preset?.id ?? null);
+    if (preset) setPrompt(preset.prompt);
+  };
+
+  const handlePresetsChange = (next: StylePreset[]) => {
+    setPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Variants of one format are numbered in the order they were saved
+  const handleHistoryDownload = async (entry: HistoryEntry) => {
+    const urls = entry.outputs.map((output) => URL.createObjectURL(output.image));
+    const variantOf = (index: number) =>
+      entry.outputs.slice(0, index + 1).filter((output) => output.ratio === entry.outputs[index].ratio).length;
     try {
-      const result = await generateExpandedImage(originalImageBase64, selectedRatio);
-      setGeneratedImage(result);
-      setStatus('success');
-    } catch (err: any) {
-      setStatus('error');
-      setErrorMsg(err.message || "Something went wrong. Please try again.");
-      
-      // If error is related to API key (404/403 often means key missing/invalid in this context), reset state
-      if (err.message && err.message.includes("Requested entity was not found")) {
-          setApiKeySet(false);
-          setErrorMsg("API Key issue. Please select your key again.");
+      if (entry.outputs.length === 1) {
+        const { name, blob } = await exportImage(urls[0], entry.outputs[0].ratio, 'insta-expand');
+        downloadBlob(blob, name);
+      } else {
+        const entries = await Promise.all(entry.outputs.map((output, i) =>
+          exportEntry(urls[i], output.ratio, 'insta-expand', variantOf(i))
+        ));
+        downloadZip(entries, `insta-expand-${entry.createdAt}.zip`);
       }
+      setHistoryError(null);
+    } catch (e) {
+      console.error("History export failed", e);
+      setHistoryError("This entry could not be exported. Try another file format in the export options.");
+    } finally {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    }
+  };
+
+  // Storage can fail on quota or a blocked database; the panel shows why
+  const runHistoryChange = async (change: () => Promise<unknown>, failure: string) => {
+    try {
+      await change();
+      setHistoryError(null);
+    } catch (e) {
+      console.error(failure, e);
+      setHistoryError(e instanceof Error ? `${failure}: ${e.message}` : `${failure}.`);
     }
+    await refreshHistory();
+  };
+
+  const handleHistoryDelete = (id: string) =>
+    runHistoryChange(() => deleteHistoryEntry(id), "Could not delete the entry");
+
+  const handleHistoryClear = () =>
+    runHistoryChange(() => clearHistory(), "Could not clear the history");
+
+  const handleHistoryPolicyChange = (policy: HistoryPolicy) => {
+    handleSettingsChange({ ...settings, history: policy });
+    return runHistoryChange(() => applyHistoryPolicy(policy), "Could not apply the cleanup policy");
   };
 
-  const handleDownload = () => {
-    if (generatedImage) {
-      const link = document.createElement('a');
-      link.href = generatedImage;
-      link.download = `insta-expand-${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  // Restores the entry's photo and settings, then generates once state has settled
+  const handleHistoryRerun = async (entry: HistoryEntry) => {
+    try {
+      const normalized = await normalizeImage(entry.original);
+      handleClear();
+      setOriginalImage(normalized.url);
+      setOriginalSource(normalized);
+      setOriginalName('insta-expand');
+      setSelectedRatio(getFormat(entry.outputs[0].ratio).id);
+      setGenerateAll(entry.outputs.length > 1);
+      setLayout(entry.layout);
+      setPrompt(entry.prompt);
+      setSelectedPresetId(presets.find((preset) => preset.name === entry.presetName)?.id ?? null);
+      if (entry.provider !== settings.provider && (keyReady || !providerRequiresApiKey(entry.provider))) {
+        handleSettingsChange({ ...settings, provider: entry.provider });
+      }
+      setShowHistory(false);
+      setRerunPending(true);
+    } catch (e) {
+      console.error("Could not restore history entry", e);
+      setErrorMsg("This history entry could not be restored.");
     }
   };
 
-  if (!apiKeySet) {
+  useEffect(() => {
+    if (!rerunPending) return;
+    setRerunPending(false);
+    if (generateAll) {
+      handleGenerateAll();
+    } else {
+      handleGenerate();
+    }
+  }, [rerunPending]);
+
+  const settingsPanel = showSettings && (
+    <SettingsPanel
+      settings={settings}
+      onChange={handleSettingsChange}
+      onClose={() => setShowSettings(false)}
+      aiStudioAvailable={Boolean(getAiStudio())}
+      onSelectAiStudioKey={handleSelectKey}
+    />
+  );
+
+  if (!canGenerate) {
     return (
       <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-6">
         <div className="max-w-md w-full bg-white rounded-3xl shadow-xl p-8 text-center border border-gray-100">
@@ -123,9 +738,23 @@ const App: React.FC = () => {
           <p className="text-gray-600 mb-8 leading-relaxed">
             To generate high-quality Instagram posts, please connect your Google Cloud Project with a paid billing account.
           </p>
-          <Button onClick={handleSelectKey} fullWidth>
-            Connect API Key
-          </Button>
+          <div className="flex flex-col gap-3">
+            {getAiStudio() && (
+              <Button onClick={handleSelectKey} fullWidth>
+                Connect API Key
+              </Button>
+            )}
+            <Button
+              onClick={() => {
+                handleSettingsChange({ ...settings, provider: 'gemini', gemini: { ...settings.gemini, keySource: 'own' } });
+                setShowSettings(true);
+              }}
+              fullWidth
+              variant={getAiStudio() ? 'outline' : 'primary'}
+            >
+              Enter your own API key
+            </Button>
+          </div>
           <a 
             href="https://ai.google.dev/gemini-api/docs/billing" 
             target="_blank" 
@@ -134,7 +763,14 @@ const App: React.FC = () => {
           >
             Learn more about billing & API keys
           </a>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="block mx-auto mt-3 text-xs text-gray-400 hover:text-gray-600 underline"
+          >
+            Use a local or offline provider instead
+          </button>
         </div>
+        {settingsPanel}
       </div>
     );
   }
@@ -152,8 +788,35 @@ const App: React.FC = () => {
             </div>
             <span className="font-bold text-lg tracking-tight text-gray-900">InstaExpand</span>
           </div>
-          <div className="text-xs font-medium text-pink-600 bg-pink-50 px-2 py-1 rounded-full">
-            AI Powered
+          <div className="flex items-center gap-2">
+            <div className="text-xs font-medium text-pink-600 bg-pink-50 px-2 py-1 rounded-full">
+              AI Powered
+            </div>
+            <button
+              onClick={() => {
+                setShowHistory(true);
+                setHistoryError(null);
+                refreshHistory();
+              }}
+              className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+              title="History"
+            >
+              <History className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowUsage(true)}
+              className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+              title="Usage"
+            >
+              <BarChart3 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+              title="Settings"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
           </div>
         </header>
 
@@ -161,26 +824,59 @@ const App: React.FC = () => {
         <main className="flex-1 overflow-y-auto px-6 py-6 pb-24 scroll-smooth">
           
           {/* Step 1: Upload */}
-          <section className="mb-8">
-            <div className="flex items-center justify-between mb-3">
-              <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider">Original Photo</h2>
-              {originalImage && (
-                <button onClick={handleClear} className="text-xs text-red-500 font-medium hover:text-red-600">
-                  Reset
-                </button>
+          {isBatch ? (
+            <section className="mb-8">
+              <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider mb-3">
+                Batch · {batchItems.length} Photos
+              </h2>
+              <BatchQueuePanel
+                items={batchItems}
+                paused={batchPaused}
+                concurrency={batchConcurrency}
+                requestsPerMinute={requestsPerMinute}
+                onPause={() => getBatchQueue().pause()}
+                onResume={handleBatchResume}
+                onCancel={() => getBatchQueue().cancel()}
+                onRetry={(id) => getBatchQueue().retry(id)}
+                onClear={handleBatchClear}
+                onExport={handleBatchExport}
+                onConcurrencyChange={handleConcurrencyChange}
+                onRequestsPerMinuteChange={handleRequestsPerMinuteChange}
+              />
+              {errorMsg && (
+                <ErrorNotice message={errorMsg} action={errorAction} onAction={handleErrorAction} />
               )}
-            </div>
-            <ImageUploader 
-              currentImage={originalImage} 
-              onImageUpload={handleImageUpload} 
-              onClear={handleClear}
-              disabled={status === 'generating'}
-              targetRatio={selectedRatio}
-            />
-          </section>
+            </section>
+          ) : (
+            <section className="mb-8">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider">Original Photo</h2>
+                {originalImage && (
+                  <button onClick={handleClear} className="text-xs text-red-500 font-medium hover:text-red-600">
+                    Reset
+                  </button>
+                )}
+              </div>
+              <ImageUploader 
+                currentImage={originalImage} 
+                onImageUpload={handleImageUpload} 
+                onMultipleUpload={handleMultipleUpload}
+                onClear={handleClear}
+                disabled={status === 'generating'}
+                targetRatio={selectedRatio}
+                layout={layout}
+                onLayoutChange={setLayout}
+                overlays={overlays}
+                onOverlaysChange={setOverlays}
+              />
+              {!originalImage && errorMsg && (
+                <ErrorNotice message={errorMsg} />
+              )}
+            </section>
+          )}
 
           {/* Step 2: Settings (Only visible if image uploaded) */}
-          {originalImage && (
+          {(originalImage || isBatch) && (
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
               <section className="mb-8">
                 <div className="flex items-center gap-2 mb-3">
@@ -195,65 +891,328 @@ const App: React.FC = () => {
                 <RatioSelector 
                   selectedRatio={selectedRatio} 
                   onSelect={setSelectedRatio} 
+                  disabled={status === 'generating' || generateAll || carouselMode}
+                />
+                {!carouselMode && (
+                  <label className="mt-3 flex items-center gap-2 text-xs font-medium text-gray-600 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={generateAll}
+                      onChange={(e) => setGenerateAll(e.target.checked)}
+                      disabled={status === 'generating'}
+                      className="accent-pink-500"
+                    />
+                    <Layers className="w-3 h-3" />
+                    Generate all formats at once
+                  </label>
+                )}
+                {!isBatch && (
+                  <label className="mt-3 flex items-center gap-2 text-xs font-medium text-gray-600 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={carouselMode}
+                      onChange={(e) => setCarouselMode(e.target.checked)}
+                      disabled={status === 'generating'}
+                      className="accent-pink-500"
+                    />
+                    <GalleryHorizontal className="w-3 h-3" />
+                    Seamless carousel from this photo
+                  </label>
+                )}
+                {!generateAll && !carouselMode && (
+                  <label className="mt-3 flex items-center gap-2 text-xs font-medium text-gray-600">
+                    Variants per generation
+                    <select
+                      value={variantCount}
+                      onChange={(e) => setVariantCount(Number(e.target.value))}
+                      disabled={status === 'generating'}
+                      className="border border-gray-200 rounded-lg px-2 py-1 bg-white text-xs"
+                    >
+                      {VARIANT_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </label>
+                )}
+                {!carouselMode && (
+                  <label className="mt-3 flex items-center gap-2 text-xs font-medium text-gray-600">
+                    Resolution
+                    <select
+                      value={settings.resolution}
+                      onChange={(e) => handleSettingsChange({ ...settings, resolution: e.target.value as ImageSize })}
+                      disabled={status === 'generating'}
+                      className="border border-gray-200 rounded-lg px-2 py-1 bg-white text-xs"
+                    >
+                      {RESOLUTIONS.map((resolution) => (
+                        <option key={resolution.id} value={resolution.id}>
+                          {`${resolution.id} · ${resolution.longSide} px${
+                            nativeImageSize(resolution.id, provider.maxImageSize) !== resolution.id ? ' (upscaled)' : ''
+                          }`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </section>
+
+              <section ref={promptSectionRef} className="mb-8">
+                <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider mb-3">Prompt & Style</h2>
+                <PromptPanel
+                  prompt={prompt}
+                  onPromptChange={setPrompt}
+                  presets={presets}
+                  selectedPresetId={selectedPresetId}
+                  onSelectPreset={handleSelectPreset}
+                  onPresetsChange={handlePresetsChange}
                   disabled={status === 'generating'}
                 />
               </section>
 
+              {carouselMode && originalImage && !isBatch && (
+                <section className="mb-8">
+                  <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider mb-3">Carousel</h2>
+                  <CarouselPanel
+                    sourceUrl={originalImage}
+                    provider={provider}
+                    prompt={prompt}
+                    exportOptions={settings.export}
+                    originalName={originalName}
+                    onRecoveryAction={handleErrorAction}
+                    confirmRequests={confirmBudget}
+                    throttle={budgetGuard}
+                  />
+                </section>
+              )}
+
               {/* Action Area */}
-              {!generatedImage && (
+              {!carouselMode && !generatedImage && !showVariantPicker && !hasFormatJobs && !isBatch && (
                 <div className="mt-4">
                   <Button 
-                    onClick={handleGenerate} 
+                    onClick={generateAll ? handleGenerateAll : handleGenerate} 
                     isLoading={status === 'generating'} 
                     fullWidth 
                     className="shadow-xl shadow-pink-200"
                   >
-                    {status === 'generating' ? 'Expanding Image...' : 'Generate Expansion'}
+                    {status === 'generating'
+                      ? (attempt > 1 ? `Retrying (attempt ${attempt})...` : 'Expanding Image...')
+                      : (generateAll ? 'Generate All Formats' : 'Generate Expansion')}
                     {!status.includes('generating') && <Wand2 className="w-4 h-4 ml-2" />}
                   </Button>
+                  {status === 'generating' && (
+                    <Button onClick={handleCancel} fullWidth variant="ghost" className="mt-2">
+                      Cancel
+                    </Button>
+                  )}
                   {errorMsg && (
-                    <p className="mt-3 text-sm text-red-500 text-center bg-red-50 p-2 rounded-lg border border-red-100">
-                      {errorMsg}
-                    </p>
+                    <ErrorNotice message={errorMsg} action={errorAction} onAction={handleErrorAction} />
                   )}
                 </div>
               )}
             </div>
           )}
 
-          {/* Step 3: Result */}
-          {generatedImage && (
+          {/* Step 3: Result (all formats) */}
+          {hasFormatJobs && (
             <div className="animate-in fade-in zoom-in duration-500 mt-6 border-t border-gray-100 pt-6">
-               <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider mb-4 flex items-center">
-                 <Sparkles className="w-4 h-4 text-yellow-500 mr-2" />
-                 AI Result
-               </h2>
-               
-               <div className="relative rounded-2xl overflow-hidden shadow-2xl border-4 border-white bg-gray-100">
-                  <img src={generatedImage} alt="Expanded" className="w-full h-auto" />
+               <div className="flex items-center justify-between mb-4">
+                 <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider flex items-center">
+                   <Sparkles className="w-4 h-4 text-yellow-500 mr-2" />
+                   All Formats
+                 </h2>
+                 <span className="text-[11px] text-gray-500">
+                   {completedFormats}/{Object.keys(formatJobs).length} ready
+                 </span>
                </div>
 
+               <FormatGallery jobs={formatJobs} onDownload={handleDownloadFormat} />
+
+               {errorMsg && (
+                 <ErrorNotice message={errorMsg} action={errorAction} onAction={handleErrorAction} />
+               )}
+
                <div className="mt-6 flex flex-col gap-3">
-                 <Button onClick={handleDownload} fullWidth variant="primary">
-                   Download Image <Download className="w-4 h-4 ml-2" />
-                 </Button>
-                 <Button onClick={() => setGeneratedImage(null)} fullWidth variant="ghost">
-                   Try Different Ratio
+                 <Button
+                   onClick={handleDownloadZip}
+                   fullWidth
+                   variant="primary"
+                   disabled={status === 'generating' || completedFormats === 0}
+                 >
+                   Download ZIP <Archive className="w-4 h-4 ml-2" />
                  </Button>
+                 {status === 'generating' ? (
+                   <Button onClick={handleCancel} fullWidth variant="ghost">
+                     Cancel
+                   </Button>
+                 ) : (
+                   <Button onClick={() => setFormatJobs({})} fullWidth variant="ghost">
+                     Start Over
+                   </Button>
+                 )}
+               </div>
+            </div>
+          )}
+
+          {/* Step 3: Result */}
+          {(generatedImage || showVariantPicker) && (
+            <div className="animate-in fade-in zoom-in duration-500 mt-6 border-t border-gray-100 pt-6">
+               <div className="flex items-center justify-between mb-4">
+                 <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wider flex items-center">
+                   <Sparkles className="w-4 h-4 text-yellow-500 mr-2" />
+                   AI Result
+                 </h2>
+                 {generatedImage?.quality && (
+                   <span
+                     title={`Structural similarity of the original region (threshold ${generatedImage.quality.threshold}, ${generatedImage.quality.attempts} attempt${generatedImage.quality.attempts > 1 ? 's' : ''})`}
+                     className={`text-[11px] font-semibold px-2 py-1 rounded-full flex items-center gap-1 ${
+                       generatedImage.quality.drifted
+                         ? 'bg-amber-50 text-amber-700'
+                         : 'bg-green-50 text-green-700'
+                     }`}
+                   >
+                     {generatedImage.quality.drifted
+                       ? <ShieldAlert className="w-3 h-3" />
+                       : <ShieldCheck className="w-3 h-3" />}
+                     {generatedImage.quality.drifted ? 'Original changed' : 'Original intact'} · {generatedImage.quality.score.toFixed(2)}
+                   </span>
+                 )}
                </div>
+               
+               {showVariantPicker && (
+                 <div className="mb-6">
+                   <VariantPicker
+                     variants={variants}
+                     ratio={variantRatio}
+                     chosenId={chosenVariantId}
+                     onChoose={handleChooseVariant}
+                     onToggleReject={handleToggleReject}
+                     onRegenerateRejected={handleRegenerateVariants}
+                     disabled={status === 'generating'}
+                   />
+                   {errorMsg && !generatedImage && (
+                     <ErrorNotice message={errorMsg} action={errorAction} onAction={handleErrorAction} />
+                   )}
+                   {status === 'generating' && (
+                     <Button onClick={handleCancel} fullWidth variant="ghost" className="mt-3">
+                       Cancel
+                     </Button>
+                   )}
+                 </div>
+               )}
+
+               {generatedImage && (
+                 <>
+                   {originalImage ? (
+                     <ResultInspector
+                       result={generatedImage}
+                       originalUrl={originalImage}
+                       overlays={overlays}
+                       onOverlaysChange={setOverlays}
+                     />
+                   ) : (
+                     <div className="relative rounded-2xl overflow-hidden shadow-2xl border-4 border-white bg-gray-100">
+                        <img src={generatedImage.url} alt="Expanded" className="w-full h-auto" />
+                     </div>
+                   )}
+
+                   <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-[11px] text-gray-500">
+                     <span className="bg-gray-100 px-2 py-1 rounded-full">
+                       Requested {formatRatio(getFormat(generatedImage.ratio).ratio)}
+                     </span>
+                     <span className="bg-gray-100 px-2 py-1 rounded-full">
+                       Delivered {describeDimensions(generatedImage.width, generatedImage.height)} · {generatedImage.width}×{generatedImage.height}
+                     </span>
+                     {generatedImage.upscaledFrom && (
+                       <span
+                         className="bg-amber-50 text-amber-700 px-2 py-1 rounded-full"
+                         title="The provider generated a smaller image; the margins were upscaled and the original kept at full resolution"
+                       >
+                         Upscaled from {generatedImage.upscaledFrom.width}×{generatedImage.upscaledFrom.height}
+                       </span>
+                     )}
+                     {generatedImage.metadata?.fallbackReason && (
+                       <span
+                         className="bg-amber-50 text-amber-700 px-2 py-1 rounded-full"
+                         title={`The AI request failed: ${generatedImage.metadata.fallbackReason}`}
+                       >
+                         Offline fill · {generatedImage.metadata.model.replace('fill-', '')}
+                       </span>
+                     )}
+                   </div>
+
+                   {generatedImage.prompt && (
+                     <p className="mt-2 text-[11px] text-gray-400 text-center line-clamp-2" title={generatedImage.prompt}>
+                       {generatedImage.presetName ? `Preset: ${generatedImage.presetName}` : `Prompt: ${generatedImage.prompt}`}
+                     </p>
+                   )}
+
+                   <div className="mt-6 flex flex-col gap-3">
+                     <Button onClick={() => setShowExport(true)} fullWidth variant="primary">
+                       Download Image <Download className="w-4 h-4 ml-2" />
+                     </Button>
+                     <Button onClick={() => setShowMaskEditor(true)} fullWidth variant="outline" disabled={status === 'generating'}>
+                       Fix an Area <Brush className="w-4 h-4 ml-2" />
+                     </Button>
+                     <Button onClick={clearVariants} fullWidth variant="ghost" disabled={status === 'generating'}>
+                       Try Different Ratio
+                     </Button>
+                   </div>
+                 </>
+               )}
             </div>
           )}
         </main>
 
         {/* Footer info - only if not generated yet to save space */}
-        {!generatedImage && (
+        {!generatedImage && !showVariantPicker && !hasFormatJobs && !isBatch && (
           <div className="absolute bottom-6 left-0 right-0 text-center px-6 pointer-events-none opacity-50">
              <p className="text-[10px] text-gray-400">
-               Powered by Gemini 3 Pro Image Model
+               Powered by {provider.label}
              </p>
           </div>
         )}
       </div>
+      {settingsPanel}
+      {showMaskEditor && chosenVariant?.result && (
+        <MaskEditor
+          versions={chosenVariant.versions ?? [chosenVariant.result]}
+          current={(chosenVariant.versions ?? [chosenVariant.result]).indexOf(chosenVariant.result)}
+          provider={provider}
+          onVersionsChange={handleVersionsChange}
+          onClose={() => setShowMaskEditor(false)}
+          onRecoveryAction={handleErrorAction}
+          confirmRequests={confirmBudget}
+          throttle={budgetGuard}
+        />
+      )}
+      {showUsage && (
+        <UsagePanel
+          settings={settings.usage}
+          onChange={(usage) => handleSettingsChange({ ...settings, usage })}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+      {showExport && generatedImage && (
+        <ExportDialog
+          result={generatedImage}
+          originalName={originalName}
+          variant={Math.max(1, variants.findIndex((variant) => variant.id === chosenVariantId) + 1)}
+          options={settings.export}
+          onOptionsChange={handleExportOptionsChange}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+      {showHistory && (
+        <HistoryPanel
+          entries={historyEntries}
+          usage={storageUsage}
+          policy={settings.history}
+          onPolicyChange={handleHistoryPolicyChange}
+          onDownload={handleHistoryDownload}
+          onRerun={handleHistoryRerun}
+          onDelete={handleHistoryDelete}
+          onClearAll={handleHistoryClear}
+          onClose={() => setShowHistory(false)}
+          error={historyError}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,354 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { AspectRatio, FormatId, ImageSize, StylePreset } from '../types';
+import { DEFAULT_PROMPT, parseDataUrl } from '../services/expansionCore';
+import { expandImage } from '../services/expansionPipeline';
+import { DEFAULT_GEMINI_CONFIG, GEMINI_MODELS, createGeminiProvider } from '../services/geminiService';
+import { FORMATS, INSTAGRAM_PORTRAIT, customFormat, getFormat, parseRatioInput } from '../services/formatService';
+import { BUILT_IN_PRESETS, parsePresetFile } from '../services/presetService';
+import { createRateLimiter, runWithConcurrency } from '../services/concurrencyService';
+import { GenerationError, GenerationErrorCode, isCancelled, toGenerationError } from '../services/errorService';
+import { RESOLUTIONS, nativeImageSize } from '../services/upscaleService';
+import { ImageInputError, ImageInputErrorCode, normalizeImageBytes } from '../services/inputService';
+import { DEFAULT_QUALITY_SETTINGS } from '../services/qualityService';
+import { nodeCodec } from './nodeCodec';
+
+// Expands every image matched by the input into one or more formats and
+// writes the results plus a manifest.json describing each job. Each job runs
+// the app's pipeline (quality retries, original restore, exact-ratio trim and
+// upscale) with sharp in place of the canvas.
+
+const USAGE = `Usage: npm run expand -- <dir | glob | file...> [options]
+
+Options:
+  -r, --ratio <format>      Format id or custom ratio like 5:2 (repeatable,
+                            or comma separated). Default: ${INSTAGRAM_PORTRAIT}
+  -p, --prompt <text>       Instructions for the added area
+      --preset <id|name>    Use a style preset's prompt
+      --presets <file>      Presets exported from the app, for --preset
+  -c, --concurrency <n>     Jobs in flight at once. Default: 2
+      --rpm <n>             Requests started per minute. Default: 10
+  -o, --out <dir>           Output directory. Default: ./expanded
+      --resolution <size>   1K, 2K or 4K; above the model's maximum the result
+                            is upscaled. Default: 1K
+      --attempts <n>        Generations per job while the original drifts.
+                            Default: ${DEFAULT_QUALITY_SETTINGS.maxAttempts}
+      --model <id>          Gemini model. Default: ${DEFAULT_GEMINI_CONFIG.model}
+      --endpoint <url>      API endpoint override
+      --api-key <key>       Gemini API key. Default: $GEMINI_API_KEY
+      --list-formats        Print the format ids and exit
+  -h, --help                Show this help`;
+
+// Files picked up from directories and globs; the real format is detected
+// from their bytes
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.heic', '.heif']);
+
+// Gemini refuses requests with more inline data than this
+const INLINE_LIMIT = 20 * 1024 * 1024;
+
+const MANIFEST_VERSION = 1;
+
+type JobStatus = 'success' | 'error' | 'cancelled';
+
+interface ManifestJob {
+  input: string;
+  format: FormatId;
+  // Ratio of the format and the one the model generated
+  ratio: string;
+  modelRatio: AspectRatio;
+  status: JobStatus;
+  // Where the result was written, unique across all jobs
+  output?: string;
+  width?: number;
+  height?: number;
+  // SSIM of the original region, see qualityService
+  quality?: number;
+  error?: string;
+  errorCode?: GenerationErrorCode | ImageInputErrorCode;
+  model?: string;
+  latencyMs?: number;
+}
+
+interface Manifest {
+  version: number;
+  createdAt: string;
+  prompt: string;
+  presetName?: string;
+  model: string;
+  imageSize: ImageSize;
+  jobs: ManifestJob[];
+}
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const isImage = (file: string) => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase());
+
+// Supports *, ** (any number of directories), ? and {a,b}
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) source += '|';
+    else source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(async (entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name.startsWith('.') ? [] : walk(full);
+    return [full];
+  }));
+  return files.flat();
+};
+
+interface InputFile {
+  file: string;
+  // Path relative to the directory or glob base, without the extension.
+  // Outputs mirror it so same-named photos in different folders stay apart.
+  name: string;
+}
+
+const relativeName = (base: string, file: string): string => {
+  const relative = path.relative(base, file);
+  return relative.slice(0, relative.length - path.extname(relative).length);
+};
+
+// A directory lists its images, a glob matches from its static prefix
+const resolveInput = async (input: string): Promise<InputFile[]> => {
+  const info = await stat(input).catch(() => null);
+  if (info?.isDirectory()) {
+    const entries = await readdir(input);
+    return entries.filter(isImage).sort().map((entry) => {
+      const file = path.join(input, entry);
+      return { file, name: relativeName(input, file) };
+    });
+  }
+  if (info?.isFile()) return [{ file: input, name: relativeName(path.dirname(input), input) }];
+
+  const pattern = input.split(path.sep).join('/');
+  const segments = pattern.split('/');
+  const firstGlob = segments.findIndex((segment) => /[*?{]/.test(segment));
+  if (firstGlob === -1) return [];
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+  const files = await walk(base).catch(() => []);
+  return files
+    .filter((file) => isImage(file) && matcher.test(path.relative(base, file).split(path.sep).join('/')))
+    .sort()
+    .map((file) => ({ file, name: relativeName(base, file) }));
+};
+
+// Adds -2, -3... to names already taken by an earlier job. Compared without
+// case, as on macOS and Windows "IMG.jpg" and "img.jpg" are the same file.
+const claimName = (taken: Set<string>, stem: string, extension: string): string => {
+  let name = `${stem}${extension}`;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${stem}-${n}${extension}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+// Same checks, orientation and downscale as uploads in the app
+const readInput = async (file: string) => {
+  const image = await normalizeImageBytes(new Uint8Array(await readFile(file)), nodeCodec);
+  if (image.base64.length > INLINE_LIMIT) {
+    throw new ImageInputError('unsupported', "This image is too large to send to the model, even scaled down.");
+  }
+  return image;
+};
+
+const resolveFormat = (value: string): FormatId => {
+  try {
+    return getFormat(value).id;
+  } catch {
+    const ratio = parseRatioInput(value);
+    if (!ratio) return fail(`Unknown format "${value}". Run with --list-formats to see the ids.`);
+    return customFormat(ratio).id;
+  }
+};
+
+const resolvePreset = async (query: string, file?: string): Promise<StylePreset> => {
+  const presets = file ? [...BUILT_IN_PRESETS, ...parsePresetFile(await readFile(file, 'utf8'))] : BUILT_IN_PRESETS;
+  const wanted = query.toLowerCase();
+  return presets.find((preset) => preset.id === query || preset.name.toLowerCase() === wanted)
+    ?? fail(`Unknown preset "${query}". Built in: ${BUILT_IN_PRESETS.map((preset) => preset.name).join(', ')}`);
+};
+
+const toPositive = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fail(`--${name} must be a positive whole number.`);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      ratio: { type: 'string', short: 'r', multiple: true },
+      prompt: { type: 'string', short: 'p' },
+      preset: { type: 'string' },
+      presets: { type: 'string' },
+      concurrency: { type: 'string', short: 'c' },
+      rpm: { type: 'string' },
+      out: { type: 'string', short: 'o' },
+      resolution: { type: 'string' },
+      attempts: { type: 'string' },
+      model: { type: 'string' },
+      endpoint: { type: 'string' },
+      'api-key': { type: 'string' },
+      'list-formats': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values['list-formats']) {
+    for (const format of FORMATS) {
+      console.log(`${format.id.padEnd(22)} ${format.platform} ${format.label} · ${format.size.width}×${format.size.height}`);
+    }
+    return;
+  }
+  if (positionals.length === 0) fail("No input given.");
+
+  const apiKey = values['api-key'] ?? process.env.GEMINI_API_KEY ?? '';
+  if (!apiKey) fail("No API key. Set GEMINI_API_KEY or pass --api-key.");
+
+  const resolution = (values.resolution ?? '1K').toUpperCase() as ImageSize;
+  if (!RESOLUTIONS.some((option) => option.id === resolution)) fail("--resolution must be 1K, 2K or 4K.");
+
+  const formats = Array.from(new Set<FormatId>(
+    (values.ratio ?? [INSTAGRAM_PORTRAIT]).flatMap((value) => value.split(',')).map((value) => resolveFormat(value.trim()))
+  ));
+  const preset = values.preset ? await resolvePreset(values.preset, values.presets) : undefined;
+  const prompt = values.prompt?.trim() || preset?.prompt || DEFAULT_PROMPT;
+  const concurrency = toPositive(values.concurrency, 2, 'concurrency');
+  const throttle = createRateLimiter(toPositive(values.rpm, 10, 'rpm'));
+  const maxAttempts = toPositive(values.attempts, DEFAULT_QUALITY_SETTINGS.maxAttempts, 'attempts');
+  const outDir = values.out ?? 'expanded';
+
+  const config = { keySource: 'own' as const, apiKey, model: values.model ?? DEFAULT_GEMINI_CONFIG.model, baseUrl: values.endpoint ?? '' };
+  if (!GEMINI_MODELS.some((model) => model.id === config.model)) {
+    console.warn(`Model "${config.model}" is not one the app knows; trying it anyway.`);
+  }
+  const provider = createGeminiProvider(config);
+
+  const resolved = (await Promise.all(positionals.map(resolveInput))).flat();
+  const inputs = resolved.filter((input, i) => resolved.findIndex((other) => other.file === input.file) === i);
+  if (inputs.length === 0) fail(`No images found in ${positionals.join(', ')}.`);
+
+  await mkdir(outDir, { recursive: true });
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.warn("\nCancelling, finished outputs are kept...");
+    controller.abort();
+  });
+
+  // Output names are fixed up front, so they do not depend on which job finishes first
+  const taken = new Set<string>();
+  const jobs = inputs.flatMap((input) => formats.map((format) => ({
+    input,
+    format,
+    output: path.join(outDir, claimName(taken, `${input.name}-${format}`, '.png')),
+  })));
+  // Each input is read and normalised once, for all of its formats
+  const sources = new Map<string, ReturnType<typeof readInput>>();
+  const manifest: Manifest = {
+    version: MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    prompt,
+    presetName: preset && preset.prompt === prompt ? preset.name : undefined,
+    model: config.model,
+    imageSize: nativeImageSize(resolution, provider.maxImageSize),
+    jobs: [],
+  };
+  console.log(`Expanding ${inputs.length} image(s) into ${formats.length} format(s) with ${provider.label}...`);
+
+  const errors: GenerationError[] = [];
+  let done = 0;
+  manifest.jobs = await runWithConcurrency(jobs, concurrency, async ({ input, format, output }): Promise<ManifestJob> => {
+    const target = getFormat(format);
+    const job: ManifestJob = {
+      input: path.relative(process.cwd(), input.file),
+      format,
+      ratio: `${target.ratio.width}:${target.ratio.height}`,
+      modelRatio: target.modelRatio,
+      status: 'error',
+    };
+    try {
+      // Same rule as the app: a bad key fails every other request too
+      if (errors.some((error) => error.code === 'invalid-key')) throw new GenerationError('invalid-key');
+      if (controller.signal.aborted) throw new GenerationError('cancelled');
+
+      if (!sources.has(input.file)) sources.set(input.file, readInput(input.file));
+      const source = await sources.get(input.file)!;
+      const result = await expandImage(source, format, {
+        provider,
+        prompt,
+        presetName: manifest.presetName,
+        maxAttempts,
+        throttle,
+        signal: controller.signal,
+        resolution,
+        codec: nodeCodec,
+      });
+
+      await mkdir(path.dirname(output), { recursive: true });
+      await writeFile(output, Buffer.from(parseDataUrl(result.url).base64, 'base64'));
+      job.status = 'success';
+      job.output = path.relative(process.cwd(), output);
+      job.width = result.width;
+      job.height = result.height;
+      job.quality = result.quality && Math.round(result.quality.score * 1000) / 1000;
+      job.model = result.metadata?.model;
+      job.latencyMs = result.metadata?.latencyMs;
+    } catch (err) {
+      if (err instanceof ImageInputError) {
+        job.error = err.message;
+        job.errorCode = err.code;
+      } else {
+        const error = toGenerationError(err);
+        errors.push(error);
+        job.status = isCancelled(error) ? 'cancelled' : 'error';
+        job.error = error.message;
+        job.errorCode = error.code;
+      }
+    }
+    done++;
+    const outcome = job.status === 'success' ? `${job.output} (${job.width}×${job.height})` : job.error;
+    console.log(`[${done}/${jobs.length}] ${job.input} → ${job.format}: ${outcome}`);
+    return job;
+  });
+
+  const manifestPath = path.join(outDir, 'manifest.json');
+  await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  const failed = manifest.jobs.filter((job) => job.status !== 'success').length;
+  console.log(`Done: ${jobs.length - failed} succeeded, ${failed} failed. Manifest: ${manifestPath}`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
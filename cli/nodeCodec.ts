@@ -0,0 +1,38 @@
+import sharp, { OutputInfo, Sharp } from 'sharp';
+import { PixelBuffer, PixelCodec, toDataUrl } from '../services/imageService';
+import { parseDataUrl } from '../services/expansionCore';
+
+// The pixel codec of the CLI: sharp decodes, encodes and resamples what a
+// canvas does in the app, so expandImage runs the same stages in Node.
+
+const toPixels = ({ data, info }: { data: Buffer; info: OutputInfo }): PixelBuffer => ({
+  width: info.width,
+  height: info.height,
+  data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+});
+
+const fromPixels = (image: PixelBuffer) =>
+  sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length), {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  });
+
+// 8-bit RGBA whatever the source's depth, channels or colour space
+const toRgba = (image: Sharp) =>
+  image.toColourspace('srgb').ensureAlpha().raw({ depth: 'uchar' }).toBuffer({ resolveWithObject: true });
+
+// Anything else is written as PNG, like a canvas does with unknown types
+const LOSSY_ENCODERS: Record<string, (image: Sharp, quality: number) => Sharp> = {
+  'image/jpeg': (image, quality) => image.jpeg({ quality }),
+  'image/webp': (image, quality) => image.webp({ quality }),
+};
+
+export const nodeCodec: PixelCodec = {
+  // Pixels as stored: EXIF orientation is applied by the input normalisation
+  decode: async (url) => toPixels(await toRgba(sharp(Buffer.from(parseDataUrl(url).base64, 'base64')))),
+  encode: async (image, mimeType = 'image/png', quality = 0.92) => {
+    const lossy = LOSSY_ENCODERS[mimeType];
+    const encoder = lossy ? lossy(fromPixels(image), Math.round(quality * 100)) : fromPixels(image).png();
+    return toDataUrl((await encoder.toBuffer()).toString('base64'), lossy ? mimeType : 'image/png');
+  },
+  resize: async (image, width, height) => toPixels(await toRgba(fromPixels(image).resize(width, height, { fit: 'fill' }))),
+};
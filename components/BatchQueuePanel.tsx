@@ -0,0 +1,155 @@
+import React from 'react';
+import { Pause, Play, X, RotateCcw, CheckCircle2, AlertCircle, Loader2, Clock, Archive } from 'lucide-react';
+import { Button } from './Button';
+import { BatchInput, GeneratedImage } from '../types';
+import { QueueItem } from '../services/batchQueueService';
+import { getFormat } from '../services/formatService';
+
+export type BatchItem = QueueItem<BatchInput, GeneratedImage[]>;
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  paused: boolean;
+  concurrency: number;
+  requestsPerMinute: number;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetry: (id: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+  onConcurrencyChange: (value: number) => void;
+  onRequestsPerMinuteChange: (value: number) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const RPM_OPTIONS = [5, 10, 20, 60];
+
+const StatusIcon: React.FC<{ item: BatchItem }> = ({ item }) => {
+  switch (item.status) {
+    case 'generating':
+      return <Loader2 className="w-4 h-4 text-pink-500 animate-spin" />;
+    case 'success':
+      return <CheckCircle2 className="w-4 h-4 text-green-500" />;
+    case 'error':
+      return <AlertCircle className="w-4 h-4 text-red-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-gray-300" />;
+  }
+};
+
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+  items,
+  paused,
+  concurrency,
+  requestsPerMinute,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onClear,
+  onExport,
+  onConcurrencyChange,
+  onRequestsPerMinuteChange,
+}) => {
+  const done = items.filter((item) => item.status === 'success').length;
+  const failed = items.filter((item) => item.status === 'error').length;
+  const active = items.some((item) => item.status === 'idle' || item.status === 'generating');
+  const neverStarted = items.every((item) => item.runs === 0);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Progress */}
+      <div>
+        <div className="flex justify-between text-[11px] text-gray-500 mb-1">
+          <span>{done}/{items.length} done{failed > 0 && ` · ${failed} failed`}</span>
+          <span>{paused ? (neverStarted ? 'Ready' : 'Paused') : active ? 'Running' : 'Finished'}</span>
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-pink-500 to-yellow-500 transition-all duration-300"
+            style={{ width: `${items.length ? (done / items.length) * 100 : 0}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Rate limit settings */}
+      <div className="grid grid-cols-2 gap-3 text-[11px] text-gray-600">
+        <label className="flex flex-col gap-1">
+          Photos in parallel
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="border border-gray-200 rounded-lg px-2 py-1.5 bg-white text-xs"
+          >
+            {CONCURRENCY_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Max requests / minute
+          <select
+            value={requestsPerMinute}
+            onChange={(e) => onRequestsPerMinuteChange(Number(e.target.value))}
+            className="border border-gray-200 rounded-lg px-2 py-1.5 bg-white text-xs"
+          >
+            {RPM_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {/* Items */}
+      <ul className="flex flex-col divide-y divide-gray-100 border border-gray-100 rounded-2xl overflow-hidden">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-3 p-2">
+            <img src={item.input.url} alt={item.input.file.name} className="w-10 h-10 rounded-lg object-cover bg-gray-100" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-gray-800 truncate">{item.input.file.name}</p>
+              <p className="text-[10px] text-gray-400 truncate">
+                {item.status === 'error'
+                  ? item.error
+                  : item.result
+                    ? item.result.map((r) => getFormat(r.ratio).label).join(', ')
+                    : item.status === 'generating' ? 'Expanding...' : 'Waiting'}
+              </p>
+            </div>
+            {item.status === 'error' && (
+              <button
+                onClick={() => onRetry(item.id)}
+                className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+                title="Retry"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+            <StatusIcon item={item} />
+          </li>
+        ))}
+      </ul>
+
+      {/* Controls */}
+      <div className="grid grid-cols-2 gap-3">
+        {paused ? (
+          <Button onClick={onResume} variant="secondary" disabled={!active}>
+            <Play className="w-4 h-4 mr-2" /> {neverStarted ? 'Start Batch' : 'Resume'}
+          </Button>
+        ) : (
+          <Button onClick={onPause} variant="outline" disabled={!active}>
+            <Pause className="w-4 h-4 mr-2" /> Pause
+          </Button>
+        )}
+        {active ? (
+          <Button onClick={onCancel} variant="outline">
+            <X className="w-4 h-4 mr-2" /> Cancel
+          </Button>
+        ) : (
+          <Button onClick={onClear} variant="ghost">
+            Clear Batch
+          </Button>
+        )}
+      </div>
+      <Button onClick={onExport} fullWidth disabled={done === 0 || active}>
+        Export All <Archive className="w-4 h-4 ml-2" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GalleryHorizontal, Wand2, Archive } from 'lucide-react';
+import { Button } from './Button';
+import { ErrorNotice } from './ErrorNotice';
+import { ExpansionProvider, FormatId } from '../types';
+import { CAROUSEL_RATIOS, CarouselResult, MAX_SLIDES, MIN_SLIDES, countCarouselPasses, generateCarousel } from '../services/carouselService';
+import { formatRatio } from '../services/ratioService';
+import { INSTAGRAM_SQUARE, getFormat } from '../services/formatService';
+import { GenerationError, RecoveryAction, isCancelled, toGenerationError } from '../services/errorService';
+import { ExportOptions, formatFilename, filenameValues, renderExport } from '../services/exportService';
+import { downloadZip } from '../services/downloadService';
+
+interface CarouselPanelProps {
+  sourceUrl: string;
+  provider: ExpansionProvider;
+  prompt: string;
+  exportOptions: ExportOptions;
+  originalName: string;
+  // Recovery actions the panel cannot handle itself, e.g. selecting a key
+  onRecoveryAction: (action: RecoveryAction) => void;
+  // Asked before a run of at most `requests` model calls; false cancels it
+  confirmRequests?: (requests: number) => boolean;
+  throttle?: () => Promise<void>;
+}
+
+export const CarouselPanel: React.FC<CarouselPanelProps> = ({
+  sourceUrl,
+  provider,
+  prompt,
+  exportOptions,
+  originalName,
+  onRecoveryAction,
+  confirmRequests,
+  throttle,
+}) => {
+  const [slides, setSlides] = useState<number>(3);
+  const [tileRatio, setTileRatio] = useState<FormatId>(INSTAGRAM_SQUARE);
+  const [result, setResult] = useState<CarouselResult | null>(null);
+  const [progress, setProgress] = useState<{ pass: number; total: number } | null>(null);
+  const [error, setError] = useState<GenerationError | null>(null);
+  const [current, setCurrent] = useState<number>(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const generating = progress !== null;
+
+  // Stop generating when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    setResult(null);
+  }, [sourceUrl]);
+
+  const handleGenerate = async () => {
+    if (confirmRequests) {
+      try {
+        if (!confirmRequests(await countCarouselPasses(sourceUrl, slides, tileRatio, provider))) return;
+      } catch (e) {
+        setError(toGenerationError(e));
+        return;
+      }
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setResult(null);
+    setProgress({ pass: 0, total: 0 });
+    try {
+      const carousel = await generateCarousel(sourceUrl, {
+        slides,
+        tileRatio,
+        provider,
+        prompt,
+        signal: controller.signal,
+        throttle,
+        onPass: (pass, total) => setProgress({ pass, total }),
+      });
+      setResult(carousel);
+      setCurrent(0);
+      trackRef.current?.scrollTo({ left: 0 });
+    } catch (e) {
+      const generationError = toGenerationError(e);
+      if (!isCancelled(generationError)) {
+        console.error("Carousel generation failed", e);
+        setError(generationError);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleRecovery = (action: RecoveryAction) => {
+    if (action === 'retry') handleGenerate();
+    else onRecoveryAction(action);
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (track) setCurrent(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const handleExport = async () => {
+    if (!result) return;
+    // Tiles already have Instagram's size; only the encoding is applied
+    const options: ExportOptions = { ...exportOptions, size: 'original' };
+    setError(null);
+    try {
+      const entries = await Promise.all(result.tiles.map(async (tile, index) => {
+        const exported = await renderExport(tile, result.tileRatio, options);
+        const number = String(index + 1).padStart(2, '0');
+        const values = filenameValues(originalName, result.tileRatio, index + 1, exported);
+        return { name: formatFilename(`{original}-carousel-${number}`, values, exported.format), data: new Uint8Array(await exported.blob.arrayBuffer()) };
+      }));
+      downloadZip(entries, `${originalName}-carousel-${Date.now()}.zip`);
+    } catch (e) {
+      console.error("Carousel export failed", e);
+      const exportError = new GenerationError('unknown', e, "The slides could not be exported. Try another file format in the export options.");
+      // Generating again would not help
+      exportError.action = 'none';
+      setError(exportError);
+    }
+  };
+
+  const target = getFormat(tileRatio).ratio;
+  const chip = (active: boolean) => `
+    flex-1 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-3 text-[11px] text-gray-600">
+        <label className="flex items-center gap-3">
+          Slides
+          <input
+            type="range"
+            min={MIN_SLIDES}
+            max={MAX_SLIDES}
+            step={1}
+            value={slides}
+            onChange={(e) => setSlides(Number(e.target.value))}
+            disabled={generating}
+            className="flex-1 accent-pink-500"
+          />
+          <span className="w-6 text-right font-semibold text-gray-900">{slides}</span>
+        </label>
+        <div className="flex gap-2">
+          {CAROUSEL_RATIOS.map((ratio) => (
+            <button key={ratio} onClick={() => setTileRatio(ratio)} disabled={generating} className={chip(tileRatio === ratio)}>
+              {getFormat(ratio).label} · {formatRatio(getFormat(ratio).ratio)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Button onClick={handleGenerate} isLoading={generating} fullWidth className="shadow-xl shadow-pink-200">
+        {generating
+          ? (progress.total > 0 ? `Generating pass ${progress.pass} of ${progress.total}...` : 'Preparing panorama...')
+          : `Generate ${slides}-Slide Carousel`}
+        {!generating && <Wand2 className="w-4 h-4 ml-2" />}
+      </Button>
+      {generating && (
+        <Button onClick={() => abortRef.current?.abort()} fullWidth variant="ghost">
+          Cancel
+        </Button>
+      )}
+      {error && <ErrorNotice message={error.message} action={error.action} onAction={handleRecovery} />}
+
+      {result && (
+        <div className="flex flex-col gap-3">
+          {/* Overview of the whole panorama with the slide cuts */}
+          <div className="relative w-full rounded-lg overflow-hidden border border-gray-200">
+            <img src={result.panoramaUrl} alt="Panorama" className="w-full h-auto block" />
+            {result.tiles.map((_, index) => (
+              <button
+                key={index}
+                onClick={() => trackRef.current?.scrollTo({ left: index * trackRef.current.clientWidth, behavior: 'smooth' })}
+                className={`absolute inset-y-0 border-r border-white/80 last:border-r-0 ${index === current ? 'bg-pink-500/20' : ''}`}
+                style={{ left: `${(index / result.tiles.length) * 100}%`, width: `${100 / result.tiles.length}%` }}
+                title={`Slide ${index + 1}`}
+              />
+            ))}
+          </div>
+
+          {/* Swipe preview, one slide per screen like the Instagram feed */}
+          <div
+            ref={trackRef}
+            onScroll={handleScroll}
+            className="flex overflow-x-auto snap-x snap-mandatory rounded-2xl shadow-2xl border-4 border-white bg-gray-100 [scrollbar-width:none]"
+          >
+            {result.tiles.map((tile, index) => (
+              <img
+                key={index}
+                src={tile}
+                alt={`Slide ${index + 1}`}
+                draggable={false}
+                className="w-full shrink-0 snap-center"
+                style={{ aspectRatio: `${target.width}/${target.height}` }}
+              />
+            ))}
+          </div>
+          <div className="flex items-center justify-center gap-1.5">
+            {result.tiles.map((_, index) => (
+              <span
+                key={index}
+                className={`w-1.5 h-1.5 rounded-full ${index === current ? 'bg-pink-500' : 'bg-gray-300'}`}
+              />
+            ))}
+          </div>
+          <p className="text-center text-[11px] text-gray-500 flex items-center justify-center gap-1.5">
+            <GalleryHorizontal className="w-3 h-3" />
+            {result.tiles.length} slides · {result.tileSize.width}×{result.tileSize.height} · {result.passes} passes
+          </p>
+
+          <Button onClick={handleExport} fullWidth variant="primary">
+            Download Slides <Archive className="w-4 h-4 ml-2" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { RotateCcw, KeyRound, Pencil, Settings, BarChart3 } from 'lucide-react';
+import { RecoveryAction } from '../services/errorService';
+
+interface ErrorNoticeProps {
+  message: string;
+  action?: RecoveryAction | null;
+  onAction?: (action: RecoveryAction) => void;
+}
+
+const ACTIONS: Partial<Record<RecoveryAction, { label: string; icon: React.ElementType }>> = {
+  retry: { label: 'Try again', icon: RotateCcw },
+  'select-key': { label: 'Select API key', icon: KeyRound },
+  'edit-prompt': { label: 'Edit prompt', icon: Pencil },
+  'open-settings': { label: 'Open settings', icon: Settings },
+  'open-usage': { label: 'View usage', icon: BarChart3 },
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ message, action, onAction }) => {
+  const recovery = action ? ACTIONS[action] : undefined;
+
+  return (
+    <div className="mt-3 text-sm text-red-500 text-center bg-red-50 p-2 rounded-lg border border-red-100">
+      <p>{message}</p>
+      {recovery && onAction && action && (
+        <button
+          onClick={() => onAction(action)}
+          className="mt-1.5 inline-flex items-center gap-1 text-xs font-semibold text-red-600 hover:text-red-700"
+        >
+          <recovery.icon className="w-3 h-3" /> {recovery.label}
+        </button>
+      )}
+    </div>
+  );
+};
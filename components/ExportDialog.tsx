@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { X, Download, Share2, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { GeneratedImage } from '../types';
+import {
+  EXPORT_FORMATS,
+  ExportOptions,
+  ExportedImage,
+  FILENAME_TOKENS,
+  canShareFiles,
+  exportSize,
+  filenameValues,
+  formatFilename,
+  renderExport,
+  shareImage,
+} from '../services/exportService';
+import { formatBytes } from '../services/historyService';
+import { getFormat } from '../services/formatService';
+import { triggerDownload } from '../services/downloadService';
+
+interface ExportDialogProps {
+  result: GeneratedImage;
+  // Name of the uploaded file without extension, for {original}
+  originalName: string;
+  // 1-based index of the exported variant, for {variant}
+  variant: number;
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+// Re-encoding on every slider tick is wasteful; wait for the user to pause
+const ESTIMATE_DELAY_MS = 250;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  result,
+  originalName,
+  variant,
+  options,
+  onOptionsChange,
+  onClose,
+}) => {
+  const [exported, setExported] = useState<ExportedImage | null>(null);
+  const [rendering, setRendering] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ExportOptions>) => onOptionsChange({ ...options, ...patch });
+
+  useEffect(() => {
+    let cancelled = false;
+    setRendering(true);
+    const timer = setTimeout(async () => {
+      try {
+        const image = await renderExport(result.url, result.ratio, options);
+        if (!cancelled) {
+          setExported(image);
+          setError(null);
+        }
+      } catch (e) {
+        console.error("Export failed", e);
+        if (!cancelled) setError("Could not encode the image in this format.");
+      } finally {
+        if (!cancelled) setRendering(false);
+      }
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [result.url, result.ratio, options.format, options.quality, options.size]);
+
+  const size = exportSize(result.ratio, result, options.size);
+  const platform = exportSize(result.ratio, result, 'platform');
+  const auto = exportSize(result.ratio, result, 'auto');
+  const platformName = getFormat(result.ratio).platform;
+  const format = exported?.format ?? options.format;
+  const filename = formatFilename(options.filenameTemplate, filenameValues(originalName, result.ratio, variant, size), format);
+  const ready = exported !== null && !rendering;
+
+  const handleDownload = () => {
+    if (!exported) return;
+    const url = URL.createObjectURL(exported.blob);
+    triggerDownload(url, filename);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleShare = async () => {
+    if (!exported) return;
+    try {
+      if (!(await shareImage(exported.blob, filename))) {
+        setError("This browser cannot share images. Download it instead.");
+      }
+    } catch (e) {
+      console.error("Share failed", e);
+      setError("Sharing failed. Download the image instead.");
+    }
+  };
+
+  const chip = (active: boolean) => `
+    flex-1 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+  `;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-lg font-bold text-gray-900">Export</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-5 text-[11px] text-gray-600">
+          <section>
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">Size</h3>
+            <div className="flex gap-2">
+              <button onClick={() => update({ size: 'auto' })} className={chip(options.size === 'auto')}>
+                Auto · {auto.width}×{auto.height}
+              </button>
+              <button onClick={() => update({ size: 'platform' })} className={chip(options.size === 'platform')}>
+                {platformName} · {platform.width}×{platform.height}
+              </button>
+              <button onClick={() => update({ size: 'original' })} className={chip(options.size === 'original')}>
+                Original · {result.width}×{result.height}
+              </button>
+            </div>
+            {size.width < result.width && (
+              <p className="mt-2 text-gray-400">Scaled down from {result.width}×{result.height}.</p>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">Format</h3>
+            <div className="flex gap-2">
+              {EXPORT_FORMATS.map((f) => (
+                <button key={f.id} onClick={() => update({ format: f.id })} className={chip(options.format === f.id)}>
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            <label className="mt-3 flex items-center gap-3">
+              Quality
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={options.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                disabled={options.format === 'png'}
+                className="flex-1 accent-pink-500 disabled:opacity-40"
+              />
+              <span className="w-9 text-right">{options.format === 'png' ? '—' : `${Math.round(options.quality * 100)}%`}</span>
+            </label>
+            {exported && exported.format !== options.format && (
+              <p className="mt-2 text-amber-600">
+                This browser cannot encode {options.format.toUpperCase()}; the image is saved as {exported.format.toUpperCase()}.
+              </p>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">File name</h3>
+            <input
+              value={options.filenameTemplate}
+              onChange={(e) => update({ filenameTemplate: e.target.value })}
+              className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 font-mono"
+            />
+            <p className="mt-1.5 text-gray-400">
+              {FILENAME_TOKENS.map((token) => `{${token}}`).join(' ')}
+            </p>
+            <p className="mt-1 text-gray-900 truncate" title={filename}>{filename}</p>
+          </section>
+
+          <p className="flex items-center gap-1.5 text-gray-500">
+            {rendering && <Loader2 className="w-3 h-3 animate-spin" />}
+            {exported
+              ? `Estimated size ${formatBytes(exported.blob.size)} · sRGB · metadata removed`
+              : 'Preparing image…'}
+          </p>
+          {error && <p className="text-red-500">{error}</p>}
+        </div>
+
+        <div className="mt-6 flex flex-col gap-3">
+          <Button onClick={handleDownload} fullWidth variant="primary" disabled={!ready}>
+            Download <Download className="w-4 h-4 ml-2" />
+          </Button>
+          {canShareFiles() && (
+            <Button onClick={handleShare} fullWidth variant="outline" disabled={!ready}>
+              Share <Share2 className="w-4 h-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
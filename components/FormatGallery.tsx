@@ -0,0 +1,69 @@
+import React from 'react';
+import { Download, Loader2, AlertCircle, Clock } from 'lucide-react';
+import { FormatId, FormatJob } from '../types';
+import { formatRatio } from '../services/ratioService';
+import { getFormat } from '../services/formatService';
+
+interface FormatGalleryProps {
+  jobs: Partial<Record<FormatId, FormatJob>>;
+  onDownload: (ratio: FormatId) => void;
+}
+
+export const FormatGallery: React.FC<FormatGalleryProps> = ({ jobs, onDownload }) => {
+  const ratios = Object.keys(jobs);
+
+  return (
+    <div className="grid grid-cols-3 gap-3 items-start">
+      {ratios.map((ratio) => {
+        const job = jobs[ratio]!;
+        const format = getFormat(ratio);
+        const target = format.ratio;
+
+        return (
+          <div key={ratio} className="flex flex-col gap-2">
+            <div
+              className="relative w-full rounded-xl overflow-hidden bg-gray-100 border border-gray-200 flex items-center justify-center"
+              style={{ aspectRatio: `${target.width}/${target.height}` }}
+            >
+              {job.status === 'success' && job.result && (
+                <img src={job.result.url} alt={format.label} className="absolute inset-0 w-full h-full object-cover" />
+              )}
+              {job.status === 'generating' && (
+                <div className="flex flex-col items-center text-pink-500">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  {job.attempt > 1 && <span className="text-[10px] mt-1">Attempt {job.attempt}</span>}
+                </div>
+              )}
+              {job.status === 'idle' && <Clock className="w-5 h-5 text-gray-300" />}
+              {job.status === 'error' && (
+                <div className="flex flex-col items-center text-red-500 px-1 text-center" title={job.error}>
+                  <AlertCircle className="w-5 h-5" />
+                  <span className="text-[10px] mt-1">Failed</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="leading-tight">
+                <p className="text-xs font-bold text-gray-800">{format.label}</p>
+                <p className="text-[10px] text-gray-400">
+                  {formatRatio(target)}
+                  {job.result?.quality && ` · ${job.result.quality.score.toFixed(2)}`}
+                </p>
+              </div>
+              {job.status === 'success' && (
+                <button
+                  onClick={() => onDownload(ratio)}
+                  className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+                  title="Download"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { FormatId } from '../types';
+import { OverlayKind, OverlayRect, availableOverlays, gridCropRect, safeZoneRects } from '../services/overlayService';
+
+interface FrameOverlayProps {
+  overlays: OverlayKind[];
+  ratio: FormatId;
+}
+
+const rectStyle = (rect: OverlayRect): React.CSSProperties => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+// Drawn on top of a frame of `ratio`; the parent must be positioned and clip its overflow
+export const FrameOverlay: React.FC<FrameOverlayProps> = ({ overlays, ratio }) => {
+  const available = availableOverlays(ratio);
+  const show = (kind: OverlayKind) => overlays.includes(kind) && available.includes(kind);
+
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none">
+      {show('safe-zone') && safeZoneRects(ratio).map((rect) => (
+        <div
+          key={rect.label}
+          className={`absolute bg-red-500/25 border-red-400 border-dashed flex items-center justify-center ${rect.y === 0 ? 'border-b-2' : 'border-t-2'}`}
+          style={rectStyle(rect)}
+        >
+          <span className="text-[9px] font-semibold text-white bg-black/50 px-1.5 py-0.5 rounded-full">{rect.label}</span>
+        </div>
+      ))}
+      {show('grid-crop') && (
+        // The huge shadow darkens everything outside the thumbnail crop
+        <div
+          className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+          style={rectStyle(gridCropRect(ratio))}
+        >
+          <span className="absolute top-1 left-1/2 -translate-x-1/2 text-[9px] font-semibold text-white bg-black/50 px-1.5 py-0.5 rounded-full whitespace-nowrap">
+            Profile grid
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo } from 'react';
+import { X, Download, Trash2, RotateCcw, HardDrive, History } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { HistoryPolicy, StorageUsage, formatBytes } from '../services/historyService';
+import { getFormat } from '../services/formatService';
+import { ErrorNotice } from './ErrorNotice';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  usage: StorageUsage | null;
+  policy: HistoryPolicy;
+  onPolicyChange: (policy: HistoryPolicy) => void;
+  onDownload: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onClose: () => void;
+  // Last failed delete, clear or cleanup
+  error?: string | null;
+}
+
+const MAX_ENTRY_OPTIONS = [20, 50, 100, 200];
+const MAX_AGE_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Forever' },
+];
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  usage,
+  policy,
+  onPolicyChange,
+  onDownload,
+  onRerun,
+  onDelete,
+  onClearAll,
+  onClose,
+  error,
+}) => {
+  const thumbnails = useMemo(
+    () => new Map(entries.map((entry) => [entry.id, URL.createObjectURL(entry.thumbnail)])),
+    [entries]
+  );
+  useEffect(() => () => thumbnails.forEach((url) => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const usedShare = usage && usage.quota > 0 ? Math.min(1, usage.usage / usage.quota) : 0;
+  const select = "border border-gray-200 rounded-lg px-2 py-1 text-xs text-gray-900 bg-white";
+  const action = "p-1.5 rounded-full text-gray-400 hover:bg-gray-100 hover:text-gray-900";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-lg font-bold text-gray-900">History</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2">
+          {entries.length === 0 ? (
+            <div className="py-12 flex flex-col items-center text-gray-400">
+              <History className="w-8 h-8 mb-3" />
+              <p className="text-sm">Your generations will appear here.</p>
+            </div>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-3 p-2 rounded-xl border border-gray-100">
+                  <img
+                    src={thumbnails.get(entry.id)}
+                    alt=""
+                    className="w-14 h-14 rounded-lg object-cover bg-gray-100 shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-semibold text-gray-900 truncate">
+                      {entry.outputs.map((output) => getFormat(output.ratio).label).join(', ')}
+                    </p>
+                    <p className="text-[11px] text-gray-500 truncate" title={entry.prompt}>
+                      {entry.presetName ?? (entry.prompt || 'Natural expansion')}
+                    </p>
+                    <p className="text-[10px] text-gray-400 truncate">
+                      {new Date(entry.createdAt).toLocaleString()} · {entry.model}
+                      {entry.outputs[0]?.quality && ` · ${entry.outputs[0].quality.score.toFixed(2)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <button onClick={() => onDownload(entry)} className={action} title="Download">
+                      <Download className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onRerun(entry)} className={action} title="Re-run with the same settings">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onDelete(entry.id)} className={action} title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {error && <ErrorNotice message={error} />}
+
+        <section className="mt-5 pt-4 border-t border-gray-100 flex flex-col gap-3 text-[11px] text-gray-600">
+          {usage && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="flex items-center gap-1.5"><HardDrive className="w-3 h-3" /> Storage</span>
+                <span>{formatBytes(usage.usage)} of {formatBytes(usage.quota)}</span>
+              </div>
+              <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                <div
+                  className={`h-full ${usedShare > 0.8 ? 'bg-amber-500' : 'bg-pink-500'}`}
+                  style={{ width: `${Math.max(usedShare * 100, 1)}%` }}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            Keep last
+            <select
+              value={policy.maxEntries}
+              onChange={(e) => onPolicyChange({ ...policy, maxEntries: Number(e.target.value) })}
+              className={select}
+            >
+              {MAX_ENTRY_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+            for
+            <select
+              value={policy.maxAgeDays}
+              onChange={(e) => onPolicyChange({ ...policy, maxAgeDays: Number(e.target.value) })}
+              className={select}
+            >
+              {MAX_AGE_OPTIONS.map((option) => <option key={option.days} value={option.days}>{option.label}</option>)}
+            </select>
+            <span className="flex-1" />
+            <button
+              onClick={onClearAll}
+              disabled={entries.length === 0}
+              className="font-medium text-red-500 hover:text-red-600 disabled:opacity-40"
+            >
+              Clear all
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -1,44 +1,142 @@
-import React, { useCallback } from 'react';
-import { Upload, Image as ImageIcon, X, Sparkles } from 'lucide-react';
-import { AspectRatio } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, Image as ImageIcon, X, Sparkles, Move } from 'lucide-react';
+import { FormatId, PlacementLayout } from '../types';
+import { PlacementControls } from './PlacementControls';
+import { FrameOverlay } from './FrameOverlay';
+import { OverlayToggles } from './OverlayToggles';
+import { ProfileGridPreview } from './ProfileGridPreview';
+import { INSTAGRAM_SQUARE, getFormat } from '../services/formatService';
+import { DEFAULT_LAYOUT, PlacementPreset, applyPreset, clampLayout, layoutFractions } from '../services/placementService';
+import { OverlayKind, availableOverlays } from '../services/overlayService';
 
 interface ImageUploaderProps {
   currentImage: string | null;
   onImageUpload: (file: File) => void;
+  // When set, several files can be picked or dropped at once and go here
+  onMultipleUpload?: (files: File[]) => void;
   onClear: () => void;
   disabled?: boolean;
-  targetRatio?: AspectRatio;
+  targetRatio?: FormatId;
+  // Enables the placement editor: drag and scale the photo inside the frame.
+  // null means the model decides where the photo goes.
+  layout?: PlacementLayout | null;
+  onLayoutChange?: (layout: PlacementLayout | null) => void;
+  // Instagram UI overlays on the frame; toggles are shown when onOverlaysChange is set
+  overlays?: OverlayKind[];
+  onOverlaysChange?: (overlays: OverlayKind[]) => void;
 }
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({ 
   currentImage, 
   onImageUpload, 
+  onMultipleUpload,
   onClear, 
   disabled,
-  targetRatio = AspectRatio.SQUARE 
+  targetRatio = INSTAGRAM_SQUARE,
+  layout = null,
+  onLayoutChange,
+  overlays = [],
+  onOverlaysChange
 }) => {
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onImageUpload(file);
+  const [isDragging, setIsDragging] = useState(false);
+  const [imageAspect, setImageAspect] = useState<number | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number; layout: PlacementLayout } | null>(null);
+
+  const target = getFormat(targetRatio).ratio;
+  const frameAspect = target.width / target.height;
+  const editable = !!onLayoutChange && imageAspect !== null && !disabled;
+
+  // Keep a pinned photo inside the frame when the target ratio changes
+  useEffect(() => {
+    if (layout && onLayoutChange && imageAspect !== null) {
+      const clamped = clampLayout(layout, frameAspect, imageAspect);
+      if (clamped.centerX !== layout.centerX || clamped.centerY !== layout.centerY || clamped.scale !== layout.scale) {
+        onLayoutChange(clamped);
+      }
+    }
+  }, [frameAspect, imageAspect]);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!editable) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = { x: event.clientX, y: event.clientY, layout: layout ?? DEFAULT_LAYOUT };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!start || !rect || !onLayoutChange || imageAspect === null) return;
+    onLayoutChange(clampLayout({
+      ...start.layout,
+      centerX: start.layout.centerX + (event.clientX - start.x) / rect.width,
+      centerY: start.layout.centerY + (event.clientY - start.y) / rect.height,
+    }, frameAspect, imageAspect));
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handlePreset = (preset: PlacementPreset) => {
+    if (onLayoutChange && imageAspect !== null) {
+      onLayoutChange(applyPreset(preset, layout ?? DEFAULT_LAYOUT, frameAspect, imageAspect));
+    }
+  };
+
+  const handleScale = (scale: number) => {
+    if (onLayoutChange && imageAspect !== null) {
+      onLayoutChange(clampLayout({ ...(layout ?? DEFAULT_LAYOUT), scale }, frameAspect, imageAspect));
+    }
+  };
+
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length > 1 && onMultipleUpload) {
+      onMultipleUpload(files);
+    } else if (files[0]) {
+      onImageUpload(files[0]);
     }
-  }, [onImageUpload]);
+  }, [onImageUpload, onMultipleUpload]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(event.target.files ?? []));
+    // Allow picking the same files again
+    event.target.value = '';
+  }, [handleFiles]);
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    if (!disabled) setIsDragging(true);
+  }, [disabled]);
+
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    // Not filtered by type: HEIC often has no MIME type, and the upload
+    // handler explains why other files are rejected
+    handleFiles(Array.from<File>(event.dataTransfer.files));
+  }, [disabled, handleFiles]);
 
   // If we have an image, show the "Preview" mode which respects aspect ratio
   if (currentImage) {
-    // Convert enum '3:4' to css '3/4'
-    const ratioValue = targetRatio.replace(':', '/');
+    // The frame shows the exact delivered ratio, e.g. 4:5 rather than the model's 3:4
+    const ratioValue = `${target.width}/${target.height}`;
+    const placed = layout && imageAspect !== null
+      ? { ...layoutFractions(layout, frameAspect, imageAspect), centerX: layout.centerX, centerY: layout.centerY }
+      : null;
 
     return (
-      <div className="relative w-full bg-gray-50 rounded-2xl border border-gray-200 p-6 flex items-center justify-center overflow-hidden transition-all duration-300">
+      <div className="relative w-full bg-gray-50 rounded-2xl border border-gray-200 p-6 flex flex-col items-center justify-center overflow-hidden transition-all duration-300">
         
         {/* The Frame Container - constrained by height to fit screen, width fits parent */}
         <div 
+          ref={frameRef}
           className="relative w-full shadow-2xl rounded-lg overflow-hidden transition-all duration-500 bg-gray-200"
           style={{ 
             aspectRatio: ratioValue,
             maxHeight: '50vh', // Don't let 9:16 take up entire screen
-            maxWidth: targetRatio === AspectRatio.STORY ? '260px' : '100%' // Keep story skinny on desktop
+            maxWidth: frameAspect < 0.6 ? '260px' : '100%' // Keep story skinny on desktop
           }}
         >
           {/* Layer 1: Blurred Background (Simulates "AI Fill Area") */}
@@ -53,22 +151,58 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
             <div className="absolute inset-0 bg-white/10 backdrop-blur-[2px]"></div>
           </div>
 
-          {/* Layer 2: The actual original image, contained within the frame */}
+          {/* Layer 2: The actual original image, contained within the frame or where the user placed it */}
           <img 
             src={currentImage} 
             alt="Original" 
-            className="absolute inset-0 w-full h-full object-contain z-10" 
+            draggable={false}
+            onLoad={(e) => setImageAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute z-10 ${placed ? 'object-fill' : 'inset-0 w-full h-full object-contain'} ${editable ? 'cursor-move touch-none' : ''}`}
+            style={placed ? {
+              left: `${(placed.centerX - placed.width / 2) * 100}%`,
+              top: `${(placed.centerY - placed.height / 2) * 100}%`,
+              width: `${placed.width * 100}%`,
+              height: `${placed.height * 100}%`,
+            } : undefined}
           />
 
+          <FrameOverlay overlays={overlays} ratio={targetRatio} />
+
           {/* Indicator Badge */}
-          <div className="absolute bottom-3 left-0 right-0 z-20 flex justify-center opacity-80">
+          <div className="absolute bottom-3 left-0 right-0 z-20 flex justify-center opacity-80 pointer-events-none">
              <span className="bg-black/60 text-white text-[10px] px-2 py-1 rounded-full backdrop-blur-md flex items-center gap-1">
-               <Sparkles className="w-3 h-3 text-yellow-400" />
-               AI Expansion Area
+               {onLayoutChange ? <Move className="w-3 h-3 text-yellow-400" /> : <Sparkles className="w-3 h-3 text-yellow-400" />}
+               {onLayoutChange ? 'Drag to place photo' : 'AI Expansion Area'}
              </span>
           </div>
         </div>
 
+        {onOverlaysChange && (
+          <div className="w-full mt-4">
+            <OverlayToggles overlays={overlays} ratio={targetRatio} onChange={onOverlaysChange} />
+          </div>
+        )}
+
+        {overlays.includes('profile-grid') && availableOverlays(targetRatio).includes('profile-grid') && (
+          <div className="w-full mt-4">
+            <ProfileGridPreview imageUrl={currentImage} />
+          </div>
+        )}
+
+        {onLayoutChange && (
+          <PlacementControls
+            layout={layout}
+            onPreset={handlePreset}
+            onScale={handleScale}
+            onAuto={() => onLayoutChange(null)}
+            disabled={disabled || imageAspect === null}
+          />
+        )}
+
         {/* Floating Close Button */}
         <button
           onClick={onClear}
@@ -83,23 +217,33 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
 
   // Upload State
   return (
-    <div className="relative group">
+    <div
+      className="relative group"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <div className={`
         relative w-full h-64 sm:h-80 rounded-2xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center text-center p-6
         ${disabled 
           ? 'border-gray-200 bg-gray-50 cursor-not-allowed opacity-60' 
-          : 'border-gray-300 bg-white hover:border-pink-400 hover:bg-pink-50/30 cursor-pointer'}
+          : isDragging
+            ? 'border-pink-500 bg-pink-50 cursor-copy'
+            : 'border-gray-300 bg-white hover:border-pink-400 hover:bg-pink-50/30 cursor-pointer'}
       `}>
         <div className="mb-4 p-4 bg-gradient-to-tr from-pink-100 to-orange-100 rounded-full group-hover:scale-110 transition-transform duration-300">
           <Upload className="w-8 h-8 text-pink-500" />
         </div>
         <h3 className="text-lg font-semibold text-gray-800 mb-1">Upload Photo</h3>
         <p className="text-sm text-gray-500 max-w-[200px]">
-          Tap to select a photo from your library
+          {onMultipleUpload
+            ? 'Tap or drop photos here. Several photos start a batch.'
+            : 'Tap to select a photo from your library'}
         </p>
         <input
           type="file"
-          accept="image/*"
+          accept="image/*,.heic,.heif"
+          multiple={!!onMultipleUpload}
           onChange={handleFileChange}
           disabled={disabled}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
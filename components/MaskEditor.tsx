@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Brush, Eraser, Undo2, Redo2, Trash2, Wand2 } from 'lucide-react';
+import { Button } from './Button';
+import { ErrorNotice } from './ErrorNotice';
+import { ExpansionProvider, GeneratedImage } from '../types';
+import { MaskStroke, MaskTool, refineRegion, renderStrokes } from '../services/refineService';
+import { createCanvas } from '../services/imageService';
+import { GenerationError, RecoveryAction, isCancelled, toGenerationError } from '../services/errorService';
+
+interface MaskEditorProps {
+  // The generated result followed by its refinements
+  versions: GeneratedImage[];
+  current: number;
+  provider: ExpansionProvider;
+  onVersionsChange: (versions: GeneratedImage[], current: number) => void;
+  onClose: () => void;
+  // Recovery actions the editor cannot handle itself, e.g. selecting a key
+  onRecoveryAction: (action: RecoveryAction) => void;
+  // Asked before the billed request; false cancels it
+  confirmRequests?: (requests: number) => boolean;
+  throttle?: () => Promise<void>;
+}
+
+// Brush sizes relative to the output's longer side
+const BRUSH_SIZES = [0.02, 0.04, 0.08];
+const MASK_COLOR = 'rgb(236, 72, 153)';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({
+  versions,
+  current,
+  provider,
+  onVersionsChange,
+  onClose,
+  onRecoveryAction,
+  confirmRequests,
+  throttle,
+}) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(BRUSH_SIZES[1]);
+  // Strokes up to `strokeCount` are drawn; the rest can be redone
+  const [strokes, setStrokes] = useState<MaskStroke[]>([]);
+  const [strokeCount, setStrokeCount] = useState<number>(0);
+  const [instruction, setInstruction] = useState<string>('');
+  const [refining, setRefining] = useState<boolean>(false);
+  const [error, setError] = useState<GenerationError | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef<MaskStroke | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const result = versions[current];
+  const visible = strokes.slice(0, strokeCount);
+  const canUndo = strokeCount > 0;
+  const canRedo = strokeCount < strokes.length;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    renderStrokes(ctx, drawingRef.current ? [...visible, drawingRef.current] : visible, MASK_COLOR);
+  }, [strokes, strokeCount]);
+
+  const undo = () => canUndo && setStrokeCount(strokeCount - 1);
+  const redo = () => canRedo && setStrokeCount(strokeCount + 1);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      // Text fields keep their own undo
+      if (!(event.metaKey || event.ctrlKey) || refining || event.target instanceof HTMLInputElement) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) undo();
+      else if (key === 'y' || (key === 'z' && event.shiftKey)) redo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // Pointer position in output pixels
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * result.width,
+      y: ((event.clientY - rect.top) / rect.height) * result.height,
+    };
+  };
+
+  const redraw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && drawingRef.current) renderStrokes(ctx, [...visible, drawingRef.current], MASK_COLOR);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (refining) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const size = Math.round(brushSize * Math.max(result.width, result.height));
+    drawingRef.current = { tool, size, points: [toImagePoint(event)] };
+    redraw();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current.points.push(toImagePoint(event));
+    redraw();
+  };
+
+  // A new stroke drops the strokes that were undone
+  const handlePointerUp = () => {
+    const stroke = drawingRef.current;
+    if (!stroke) return;
+    drawingRef.current = null;
+    setStrokes([...visible, stroke]);
+    setStrokeCount(visible.length + 1);
+  };
+
+  const clearMask = () => {
+    setStrokes([]);
+    setStrokeCount(0);
+  };
+
+  const handleRefine = async () => {
+    if (visible.length === 0 || (confirmRequests && !confirmRequests(1))) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRefining(true);
+    setError(null);
+    try {
+      // The mask is painted opaque at the output size; the on-screen one is tinted
+      const { canvas: mask, ctx } = createCanvas(result.width, result.height);
+      renderStrokes(ctx, visible, '#ffffff');
+      const refined = await refineRegion(result, mask, { provider, instruction, throttle, signal: controller.signal });
+      onVersionsChange([...versions, refined], versions.length);
+      clearMask();
+    } catch (e) {
+      const generationError = toGenerationError(e);
+      if (!isCancelled(generationError)) {
+        console.error("Refinement failed", e);
+        setError(generationError);
+      }
+    } finally {
+      abortRef.current = null;
+      setRefining(false);
+    }
+  };
+
+  const handleRecovery = (action: RecoveryAction) => {
+    if (action === 'retry') handleRefine();
+    else onRecoveryAction(action);
+  };
+
+  const toolButton = (active: boolean) => `
+    p-2 rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+  `;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center" onClick={refining ? undefined : onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-gray-900">Fix an area</h2>
+          <button onClick={onClose} disabled={refining} className="p-2 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-40">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-3">
+          <button onClick={() => setTool('brush')} className={toolButton(tool === 'brush')} title="Brush">
+            <Brush className="w-4 h-4" />
+          </button>
+          <button onClick={() => setTool('eraser')} className={toolButton(tool === 'eraser')} title="Eraser">
+            <Eraser className="w-4 h-4" />
+          </button>
+          <div className="flex items-center gap-1 ml-1">
+            {BRUSH_SIZES.map((size, i) => (
+              <button
+                key={size}
+                onClick={() => setBrushSize(size)}
+                className={`w-7 h-7 rounded-full flex items-center justify-center ${brushSize === size ? 'bg-pink-50' : 'hover:bg-gray-50'}`}
+                title={`Brush size ${i + 1}`}
+              >
+                <span className={`rounded-full ${brushSize === size ? 'bg-pink-500' : 'bg-gray-400'}`} style={{ width: 6 + i * 5, height: 6 + i * 5 }} />
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <button onClick={undo} disabled={!canUndo || refining} className={toolButton(false)} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button onClick={redo} disabled={!canRedo || refining} className={toolButton(false)} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </button>
+            <button onClick={clearMask} disabled={!canUndo || refining} className={toolButton(false)} title="Clear mask">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="relative rounded-2xl overflow-hidden border border-gray-100 bg-gray-100">
+          <img src={result.url} alt="Result" className="w-full h-auto block select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            width={result.width}
+            height={result.height}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${refining ? 'cursor-wait animate-pulse' : 'cursor-crosshair'}`}
+          />
+        </div>
+        <p className="mt-2 text-[11px] text-gray-400 text-center">
+          Paint over what looks wrong. Only the painted area is regenerated.
+        </p>
+
+        <label className="flex flex-col gap-1 mt-4 text-[11px] text-gray-600">
+          Instruction (optional)
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="e.g. remove the text, replace with sky"
+            disabled={refining}
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900 disabled:opacity-50"
+          />
+        </label>
+
+        <div className="mt-4 flex flex-col gap-2">
+          <Button onClick={handleRefine} fullWidth isLoading={refining} disabled={visible.length === 0}>
+            Regenerate painted area <Wand2 className="w-4 h-4 ml-2" />
+          </Button>
+          {refining && (
+            <Button onClick={() => abortRef.current?.abort()} fullWidth variant="ghost">
+              Cancel
+            </Button>
+          )}
+        </div>
+        {error && <ErrorNotice message={error.message} action={error.action} onAction={handleRecovery} />}
+
+        {versions.length > 1 && (
+          <section className="mt-6">
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">Versions</h3>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {versions.map((version, i) => (
+                <button
+                  key={i}
+                  onClick={() => onVersionsChange(versions, i)}
+                  disabled={refining}
+                  title={version.refinedWith ?? 'Generated result'}
+                  className={`shrink-0 w-16 rounded-lg overflow-hidden border-2 transition-colors ${
+                    i === current ? 'border-pink-500' : 'border-transparent hover:border-gray-200'
+                  }`}
+                >
+                  <img src={version.url} alt={i === 0 ? 'Generated' : `Edit ${i}`} className="w-full h-auto block" />
+                  <span className="block text-[10px] text-gray-500 py-0.5">{i === 0 ? 'Generated' : `Edit ${i}`}</span>
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-[11px] text-gray-400">Edits apply to the selected version; the selected one is downloaded.</p>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
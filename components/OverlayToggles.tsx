@@ -0,0 +1,34 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { FormatId } from '../types';
+import { OverlayKind, overlaysFor } from '../services/overlayService';
+
+interface OverlayTogglesProps {
+  overlays: OverlayKind[];
+  ratio: FormatId;
+  onChange: (overlays: OverlayKind[]) => void;
+}
+
+export const OverlayToggles: React.FC<OverlayTogglesProps> = ({ overlays, ratio, onChange }) => {
+  const options = overlaysFor(ratio);
+  if (options.length === 0) return null;
+
+  const toggle = (kind: OverlayKind) =>
+    onChange(overlays.includes(kind) ? overlays.filter((k) => k !== kind) : [...overlays, kind]);
+
+  const chip = (active: boolean) => `
+    px-2.5 py-1 rounded-full text-[11px] font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+  `;
+
+  return (
+    <div className="w-full flex flex-wrap items-center justify-center gap-1.5">
+      <Eye className="w-3 h-3 text-gray-400" />
+      {options.map((overlay) => (
+        <button key={overlay.id} onClick={() => toggle(overlay.id)} className={chip(overlays.includes(overlay.id))}>
+          {overlay.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { PlacementLayout } from '../types';
+import { DEFAULT_LAYOUT, MIN_LAYOUT_SCALE, PLACEMENT_PRESETS, PlacementPreset } from '../services/placementService';
+
+interface PlacementControlsProps {
+  layout: PlacementLayout | null;
+  onPreset: (preset: PlacementPreset) => void;
+  onScale: (scale: number) => void;
+  onAuto: () => void;
+  disabled?: boolean;
+}
+
+export const PlacementControls: React.FC<PlacementControlsProps> = ({
+  layout,
+  onPreset,
+  onScale,
+  onAuto,
+  disabled,
+}) => {
+  const chip = (active: boolean) => `
+    px-2.5 py-1 rounded-full text-[11px] font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  return (
+    <div className="w-full mt-4 flex flex-col gap-3">
+      <div className="flex flex-wrap gap-1.5 justify-center">
+        <button onClick={onAuto} disabled={disabled} className={chip(layout === null)} title="Let the model place the photo">
+          Auto
+        </button>
+        {PLACEMENT_PRESETS.map((preset) => (
+          <button key={preset.id} onClick={() => onPreset(preset.id)} disabled={disabled} className={chip(false)}>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-3 text-[11px] text-gray-500">
+        Size
+        <input
+          type="range"
+          min={MIN_LAYOUT_SCALE}
+          max={1}
+          step={0.01}
+          value={(layout ?? DEFAULT_LAYOUT).scale}
+          onChange={(e) => onScale(Number(e.target.value))}
+          disabled={disabled}
+          className="flex-1 accent-pink-500"
+        />
+        <span className="w-9 text-right">{Math.round((layout ?? DEFAULT_LAYOUT).scale * 100)}%</span>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { INSTAGRAM_LAYOUT } from '../services/overlayService';
+
+interface ProfileGridPreviewProps {
+  imageUrl: string;
+}
+
+// Mock profile: the new post comes first, followed by placeholder recent posts.
+// Thumbnails are centre crops, the same way Instagram shows them.
+export const ProfileGridPreview: React.FC<ProfileGridPreviewProps> = ({ imageUrl }) => {
+  const { gridThumbnail, profileGrid } = INSTAGRAM_LAYOUT;
+  const thumbnailRatio = `${gridThumbnail.width}/${gridThumbnail.height}`;
+
+  return (
+    <div className="w-full max-w-[260px] mx-auto">
+      <div
+        className="grid gap-0.5 bg-white rounded-lg overflow-hidden border border-gray-200"
+        style={{ gridTemplateColumns: `repeat(${profileGrid.columns}, minmax(0, 1fr))` }}
+      >
+        <div className="relative overflow-hidden" style={{ aspectRatio: thumbnailRatio }}>
+          <img src={imageUrl} alt="New post" draggable={false} className="absolute inset-0 w-full h-full object-cover" />
+          <span className="absolute top-1 left-1 text-[8px] font-semibold bg-pink-500 text-white px-1 rounded">New</span>
+        </div>
+        {Array.from({ length: profileGrid.recentPosts }, (_, index) => (
+          <div
+            key={index}
+            className={index % 3 === 0 ? 'bg-gray-200' : index % 3 === 1 ? 'bg-gray-300' : 'bg-gray-100'}
+            style={{ aspectRatio: thumbnailRatio }}
+          />
+        ))}
+      </div>
+      <p className="mt-1.5 text-center text-[10px] text-gray-400">How the post sits on your profile</p>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { Save, Trash2, Upload, Download, Pencil } from 'lucide-react';
+import { StylePreset } from '../types';
+import { createPresetId, exportPresets, mergePresets, parsePresetFile } from '../services/presetService';
+import { triggerDownload } from '../services/downloadService';
+
+interface PromptPanelProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  presets: StylePreset[];
+  selectedPresetId: string | null;
+  onSelectPreset: (preset: StylePreset | null) => void;
+  onPresetsChange: (presets: StylePreset[]) => void;
+  disabled?: boolean;
+}
+
+export const PromptPanel: React.FC<PromptPanelProps> = ({
+  prompt,
+  onPromptChange,
+  presets,
+  selectedPresetId,
+  onSelectPreset,
+  onPresetsChange,
+  disabled,
+}) => {
+  const [naming, setNaming] = useState<'new' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selected = presets.find((preset) => preset.id === selectedPresetId) ?? null;
+  const modified = selected !== null && selected.prompt !== prompt;
+  const canSave = prompt.trim() !== '';
+
+  const startNaming = (mode: 'new' | 'rename') => {
+    setNaming(mode);
+    setName(mode === 'rename' && selected ? selected.name : '');
+  };
+
+  const confirmName = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (naming === 'rename' && selected && !selected.builtIn) {
+      onPresetsChange(presets.map((p) => (p.id === selected.id ? { ...p, name: trimmed } : p)));
+    } else {
+      const preset = { id: createPresetId(), name: trimmed, prompt: prompt.trim() };
+      onPresetsChange([...presets, preset]);
+      onSelectPreset(preset);
+    }
+    setNaming(null);
+  };
+
+  const updateSelected = () => {
+    if (!selected || selected.builtIn) return;
+    onPresetsChange(presets.map((p) => (p.id === selected.id ? { ...p, prompt: prompt.trim() } : p)));
+  };
+
+  const deleteSelected = () => {
+    if (!selected || selected.builtIn) return;
+    onPresetsChange(presets.filter((p) => p.id !== selected.id));
+    onSelectPreset(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, 'insta-expand-presets.json');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onPresetsChange(mergePresets(presets, parsePresetFile(await file.text())));
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const chip = (active: boolean) => `
+    px-2.5 py-1 rounded-full text-[11px] font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+  `;
+  const action = "flex items-center gap-1 text-[11px] font-medium text-gray-500 hover:text-gray-900 disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-1.5">
+        {presets.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onSelectPreset(preset.id === selectedPresetId ? null : preset)}
+            disabled={disabled}
+            className={chip(preset.id === selectedPresetId)}
+            title={preset.prompt}
+          >
+            {preset.name}{preset.id === selectedPresetId && modified ? ' *' : ''}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={prompt}
+        onChange={(e) => onPromptChange(e.target.value)}
+        disabled={disabled}
+        rows={3}
+        placeholder="Describe what the new area should contain. Leave empty to expand naturally."
+        className="w-full border border-gray-200 rounded-xl px-3 py-2 text-sm text-gray-900 resize-none focus:outline-none focus:ring-2 focus:ring-pink-200"
+      />
+
+      {naming ? (
+        <div className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && confirmName()}
+            placeholder="Preset name"
+            className="flex-1 border border-gray-200 rounded-lg px-3 py-1.5 text-xs"
+          />
+          <button onClick={confirmName} className="text-xs font-semibold text-pink-600">Save</button>
+          <button onClick={() => setNaming(null)} className="text-xs text-gray-400">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <button onClick={() => startNaming('new')} disabled={disabled || !canSave} className={action}>
+            <Save className="w-3 h-3" /> Save as preset
+          </button>
+          {selected && !selected.builtIn && (
+            <>
+              {modified && (
+                <button onClick={updateSelected} disabled={disabled || !canSave} className={action}>
+                  <Save className="w-3 h-3" /> Update "{selected.name}"
+                </button>
+              )}
+              <button onClick={() => startNaming('rename')} disabled={disabled} className={action}>
+                <Pencil className="w-3 h-3" /> Rename
+              </button>
+              <button onClick={deleteSelected} disabled={disabled} className={action}>
+                <Trash2 className="w-3 h-3" /> Delete
+              </button>
+            </>
+          )}
+          <span className="flex-1" />
+          <button onClick={() => fileInput.current?.click()} disabled={disabled} className={action}>
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <button onClick={handleExport} disabled={!presets.some((p) => !p.builtIn)} className={action}>
+            <Download className="w-3 h-3" /> Export
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      )}
+
+      {importError && <p className="text-[11px] text-red-500">{importError}</p>}
+    </div>
+  );
+};
@@ -1,65 +1,110 @@
-import React from 'react';
-import { AspectRatio } from '../types';
-import { Square, RectangleVertical, Smartphone } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { FormatId, RatioSize } from '../types';
+import { formatRatio } from '../services/ratioService';
+import { customFormat, formatsByPlatform, getFormat, isCustomFormat, parseRatioInput } from '../services/formatService';
+import { Square, RectangleVertical, RectangleHorizontal, Smartphone } from 'lucide-react';
 
 interface RatioSelectorProps {
-  selectedRatio: AspectRatio;
-  onSelect: (ratio: AspectRatio) => void;
+  selectedRatio: FormatId;
+  onSelect: (ratio: FormatId) => void;
   disabled?: boolean;
 }
 
+const iconFor = (ratio: RatioSize) => {
+  const aspect = ratio.width / ratio.height;
+  if (aspect < 0.6) return Smartphone;
+  if (aspect < 1) return RectangleVertical;
+  if (aspect > 1) return RectangleHorizontal;
+  return Square;
+};
+
 export const RatioSelector: React.FC<RatioSelectorProps> = ({ selectedRatio, onSelect, disabled }) => {
-  const options = [
-    { 
-      id: AspectRatio.SQUARE, 
-      label: 'Square', 
-      subLabel: '1:1',
-      icon: Square,
-      desc: 'Post'
-    },
-    { 
-      id: AspectRatio.PORTRAIT, 
-      label: 'Portrait', 
-      subLabel: '4:5', // Displaying 4:5 to user, but technically using 3:4 backend
-      icon: RectangleVertical,
-      desc: 'Feed' 
-    },
-    { 
-      id: AspectRatio.STORY, 
-      label: 'Story', 
-      subLabel: '9:16', 
-      icon: Smartphone,
-      desc: 'Reels' 
-    },
-  ];
+  const customSelected = isCustomFormat(selectedRatio);
+  const [customInput, setCustomInput] = useState<string>(
+    customSelected ? formatRatio(getFormat(selectedRatio).ratio) : ''
+  );
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  // A custom format can also be restored from history
+  useEffect(() => {
+    if (isCustomFormat(selectedRatio)) setCustomInput(formatRatio(getFormat(selectedRatio).ratio));
+  }, [selectedRatio]);
+
+  const handleCustom = (event: React.FormEvent) => {
+    event.preventDefault();
+    const ratio = parseRatioInput(customInput);
+    if (!ratio) {
+      setCustomError("Enter a ratio like 5:2 or 1.91:1, between 1:4 and 4:1.");
+      return;
+    }
+    setCustomError(null);
+    onSelect(customFormat(ratio).id);
+  };
 
   return (
-    <div className="grid grid-cols-3 gap-3">
-      {options.map((opt) => {
-        const Icon = opt.icon;
-        const isSelected = selectedRatio === opt.id;
-        
-        return (
-          <button
-            key={opt.id}
-            onClick={() => onSelect(opt.id)}
+    <div className="flex flex-col gap-4">
+      {formatsByPlatform().map(({ platform, formats }) => (
+        <div key={platform}>
+          <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">{platform}</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {formats.map((format) => {
+              const Icon = iconFor(format.ratio);
+              const isSelected = selectedRatio === format.id;
+
+              return (
+                <button
+                  key={format.id}
+                  onClick={() => onSelect(format.id)}
+                  disabled={disabled}
+                  title={`${format.description} · ${format.size.width}×${format.size.height}`}
+                  className={`
+                    relative flex flex-col items-center justify-center p-3 rounded-2xl border-2 transition-all duration-200
+                    ${isSelected
+                      ? 'border-pink-500 bg-pink-50 text-pink-700 shadow-sm'
+                      : 'border-gray-100 bg-white text-gray-600 hover:border-gray-200 hover:bg-gray-50'}
+                    ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+                  `}
+                >
+                  <div className={`mb-2 p-2 rounded-full ${isSelected ? 'bg-pink-100' : 'bg-gray-100'}`}>
+                    <Icon className={`w-5 h-5 ${isSelected ? 'text-pink-600' : 'text-gray-500'}`} />
+                  </div>
+                  <span className="text-xs font-bold mb-0.5">{format.label}</span>
+                  {/* Exact delivered ratio; the model may generate a nearby one that is trimmed */}
+                  <span className="text-[10px] text-gray-400 font-medium">{formatRatio(format.ratio)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={handleCustom}>
+        <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-2">Custom</h3>
+        <div className="flex gap-2">
+          <input
+            value={customInput}
+            onChange={(e) => setCustomInput(e.target.value)}
+            placeholder="e.g. 5:2 or 1.91:1"
             disabled={disabled}
-            className={`
-              relative flex flex-col items-center justify-center p-3 rounded-2xl border-2 transition-all duration-200
-              ${isSelected 
-                ? 'border-pink-500 bg-pink-50 text-pink-700 shadow-sm' 
-                : 'border-gray-100 bg-white text-gray-600 hover:border-gray-200 hover:bg-gray-50'}
-              ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
-            `}
+            className={`flex-1 min-w-0 border-2 rounded-xl px-3 py-2 text-sm text-gray-900 disabled:opacity-50 ${
+              customSelected ? 'border-pink-500 bg-pink-50' : 'border-gray-100 bg-white'
+            }`}
+          />
+          <button
+            type="submit"
+            disabled={disabled || !customInput.trim()}
+            className="px-4 rounded-xl text-xs font-bold bg-gray-900 text-white disabled:opacity-40 disabled:cursor-not-allowed"
           >
-            <div className={`mb-2 p-2 rounded-full ${isSelected ? 'bg-pink-100' : 'bg-gray-100'}`}>
-              <Icon className={`w-5 h-5 ${isSelected ? 'text-pink-600' : 'text-gray-500'}`} />
-            </div>
-            <span className="text-xs font-bold mb-0.5">{opt.label}</span>
-            <span className="text-[10px] text-gray-400 font-medium">{opt.subLabel}</span>
+            Use
           </button>
-        );
-      })}
+        </div>
+        {customError && <p className="mt-1.5 text-[11px] text-red-500">{customError}</p>}
+        {customSelected && !customError && (
+          <p className="mt-1.5 text-[11px] text-gray-500">
+            Generated at {getFormat(selectedRatio).modelRatio}, trimmed to {formatRatio(getFormat(selectedRatio).ratio)}
+          </p>
+        )}
+      </form>
     </div>
   );
 };
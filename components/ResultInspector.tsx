@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Columns2, ZoomIn, ZoomOut, Maximize, Square } from 'lucide-react';
+import { GeneratedImage, Placement } from '../types';
+import { FrameOverlay } from './FrameOverlay';
+import { OverlayToggles } from './OverlayToggles';
+import { ProfileGridPreview } from './ProfileGridPreview';
+import { OverlayKind, availableOverlays } from '../services/overlayService';
+
+interface ResultInspectorProps {
+  result: GeneratedImage;
+  // URL of the uploaded photo, shown on the "before" side
+  originalUrl: string;
+  overlays?: OverlayKind[];
+  onOverlaysChange?: (overlays: OverlayKind[]) => void;
+}
+
+type InspectorMode = 'compare' | 'inspect';
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MAX_ZOOM = 16;
+// From this zoom on pixels are drawn as hard squares
+const PIXELATED_ZOOM = 4;
+const INITIAL_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+// Keeps the zoomed image covering the whole viewport
+const clampView = (view: View, width: number, height: number): View => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(width - width * zoom, view.x)),
+    y: Math.min(0, Math.max(height - height * zoom, view.y)),
+  };
+};
+
+// Zooms by `factor` while keeping the point (px, py) of the viewport fixed
+const zoomView = (view: View, px: number, py: number, factor: number, width: number, height: number): View => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom * factor));
+  const k = zoom / view.zoom;
+  return clampView({ zoom, x: px - (px - view.x) * k, y: py - (py - view.y) * k }, width, height);
+};
+
+const toPercent = (rect: Placement, width: number, height: number): React.CSSProperties => ({
+  left: `${(rect.x / width) * 100}%`,
+  top: `${(rect.y / height) * 100}%`,
+  width: `${(rect.width / width) * 100}%`,
+  height: `${(rect.height / height) * 100}%`,
+});
+
+export const ResultInspector: React.FC<ResultInspectorProps> = ({ result, originalUrl, overlays = [], onOverlaysChange }) => {
+  const [mode, setMode] = useState<InspectorMode>('compare');
+  const [split, setSplit] = useState<number>(0.5);
+  const [showOutline, setShowOutline] = useState<boolean>(true);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+
+  const placementStyle = result.placement ? toPercent(result.placement, result.width, result.height) : null;
+
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+  }, [result.url, mode]);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || mode !== 'inspect') return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const factor = Math.exp(-event.deltaY * 0.002);
+      setView((prev) => zoomView(prev, event.clientX - rect.left, event.clientY - rect.top, factor, rect.width, rect.height));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [mode]);
+
+  const localPoint = (event: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top, width: rect.width, height: rect.height };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = localPoint(event);
+    pointers.current.set(event.pointerId, point);
+    if (mode === 'compare') setSplit(Math.min(1, Math.max(0, point.x / point.width)));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+    const point = localPoint(event);
+
+    if (mode === 'compare') {
+      setSplit(Math.min(1, Math.max(0, point.x / point.width)));
+      pointers.current.set(event.pointerId, point);
+      return;
+    }
+
+    const before = Array.from<Point>(pointers.current.values());
+    pointers.current.set(event.pointerId, point);
+    const after = Array.from<Point>(pointers.current.values());
+
+    if (after.length === 1) {
+      // One finger or the mouse pans
+      setView((prev) => clampView(
+        { ...prev, x: prev.x + point.x - previous.x, y: prev.y + point.y - previous.y },
+        point.width,
+        point.height
+      ));
+    } else if (after.length === 2) {
+      // Two fingers pinch around their midpoint and pan with it
+      const mid = (p: Point[]) => ({ x: (p[0].x + p[1].x) / 2, y: (p[0].y + p[1].y) / 2 });
+      const distance = (p: Point[]) => Math.hypot(p[0].x - p[1].x, p[0].y - p[1].y);
+      const from = mid(before);
+      const to = mid(after);
+      const factor = distance(before) > 0 ? distance(after) / distance(before) : 1;
+      setView((prev) => zoomView(
+        { ...prev, x: prev.x + to.x - from.x, y: prev.y + to.y - from.y },
+        to.x,
+        to.y,
+        factor,
+        point.width,
+        point.height
+      ));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    pointers.current.delete(event.pointerId);
+  };
+
+  const zoomCentre = (factor: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setView((prev) => zoomView(prev, rect.width / 2, rect.height / 2, factor, rect.width, rect.height));
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent) => {
+    if (mode !== 'inspect') return;
+    const rect = containerRef.current!.getBoundingClientRect();
+    const px = event.clientX - rect.left;
+    const py = event.clientY - rect.top;
+    setView((prev) => prev.zoom > 1
+      ? INITIAL_VIEW
+      : zoomView(prev, px, py, PIXELATED_ZOOM, rect.width, rect.height));
+  };
+
+  const outline = showOutline && placementStyle && (
+    <div
+      className="absolute border-2 border-dashed border-yellow-400 shadow-[0_0_0_1px_rgba(0,0,0,0.4)] pointer-events-none"
+      style={placementStyle}
+    />
+  );
+
+  const tab = (active: boolean) => `
+    flex items-center gap-1 px-2.5 py-1 rounded-full text-[11px] font-medium transition-colors
+    ${active ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-900'}
+  `;
+  const tool = "p-1.5 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        className={`relative w-full rounded-2xl overflow-hidden shadow-2xl border-4 border-white bg-gray-100 select-none ${
+          // Comparing leaves vertical swipes to the page; inspecting takes every gesture
+          mode === 'compare' ? 'cursor-ew-resize touch-pan-y' : 'cursor-grab active:cursor-grabbing touch-none'
+        }`}
+        style={{ aspectRatio: `${result.width}/${result.height}` }}
+      >
+        {mode === 'compare' ? (
+          <>
+            <img src={result.url} alt="Expanded" draggable={false} className="absolute inset-0 w-full h-full" />
+
+            {/* Before: the original where it sits in the result, on an empty canvas */}
+            <div
+              className="absolute inset-0 bg-[repeating-conic-gradient(#e5e7eb_0%_25%,#f9fafb_0%_50%)] bg-[length:16px_16px]"
+              style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+            >
+              <img
+                src={originalUrl}
+                alt="Original"
+                draggable={false}
+                className={`absolute ${placementStyle ? '' : 'inset-0 w-full h-full object-contain'}`}
+                style={placementStyle ?? undefined}
+              />
+            </div>
+
+            {outline}
+
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${split * 100}%` }}>
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center">
+                <Columns2 className="w-4 h-4 text-gray-700" />
+              </div>
+            </div>
+            <FrameOverlay overlays={overlays} ratio={result.ratio} />
+            <span className="absolute top-2 left-2 text-[10px] font-semibold bg-black/50 text-white px-2 py-0.5 rounded-full pointer-events-none">Before</span>
+            <span className="absolute top-2 right-2 text-[10px] font-semibold bg-black/50 text-white px-2 py-0.5 rounded-full pointer-events-none">After</span>
+          </>
+        ) : (
+          <div
+            className="absolute inset-0 origin-top-left"
+            style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+          >
+            <img
+              src={result.url}
+              alt="Expanded"
+              draggable={false}
+              className="w-full h-full"
+              style={{ imageRendering: view.zoom >= PIXELATED_ZOOM ? 'pixelated' : 'auto' }}
+            />
+            {outline}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1 bg-gray-100 rounded-full p-0.5">
+          <button onClick={() => setMode('compare')} className={tab(mode === 'compare')}>
+            <Columns2 className="w-3 h-3" /> Compare
+          </button>
+          <button onClick={() => setMode('inspect')} className={tab(mode === 'inspect')}>
+            <ZoomIn className="w-3 h-3" /> Inspect
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          {mode === 'inspect' && (
+            <>
+              <button onClick={() => zoomCentre(0.5)} disabled={view.zoom <= 1} className={tool} title="Zoom out">
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <span className="w-9 text-center text-[11px] text-gray-500">{view.zoom.toFixed(view.zoom < 10 ? 1 : 0)}×</span>
+              <button onClick={() => zoomCentre(2)} disabled={view.zoom >= MAX_ZOOM} className={tool} title="Zoom in">
+                <ZoomIn className="w-4 h-4" />
+              </button>
+              <button onClick={() => setView(INITIAL_VIEW)} disabled={view.zoom === 1} className={tool} title="Fit">
+                <Maximize className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          {placementStyle && (
+            <button
+              onClick={() => setShowOutline(!showOutline)}
+              className={`${tool} ${showOutline ? 'text-yellow-500' : ''}`}
+              title="Show where the original sits"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {mode === 'compare' && onOverlaysChange && (
+        <OverlayToggles overlays={overlays} ratio={result.ratio} onChange={onOverlaysChange} />
+      )}
+      {mode === 'compare' && overlays.includes('profile-grid') && availableOverlays(result.ratio).includes('profile-grid') && (
+        <ProfileGridPreview imageUrl={result.url} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { X, Server, Check, KeyRound, Eye, EyeOff, Loader2, Layers, ShieldCheck } from 'lucide-react';
+import { AppSettings } from '../services/settingsService';
+import { PROVIDER_OPTIONS, supportsOfflineFallback } from '../services/providerService';
+import { GEMINI_MODELS, GeminiKeySource, validateGeminiConfig } from '../services/geminiService';
+import { toGenerationError } from '../services/errorService';
+import { FILL_MODES } from '../services/offlineFillService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+  // Whether the app runs inside AI Studio, which can inject a selected key
+  aiStudioAvailable: boolean;
+  onSelectAiStudioKey: () => void;
+}
+
+type KeyCheck = { state: 'checking' } | { state: 'valid' } | { state: 'invalid'; message: string };
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose, aiStudioAvailable, onSelectAiStudioKey }) => {
+  const [showKey, setShowKey] = useState<boolean>(false);
+  const [keyCheck, setKeyCheck] = useState<KeyCheck | null>(null);
+
+  const updateLocal = (patch: Partial<AppSettings['local']>) =>
+    onChange({ ...settings, local: { ...settings.local, ...patch } });
+
+  const updateQuality = (patch: Partial<AppSettings['quality']>) =>
+    onChange({ ...settings, quality: { ...settings.quality, ...patch } });
+
+  const updateOffline = (patch: Partial<AppSettings['offline']>) =>
+    onChange({ ...settings, offline: { ...settings.offline, ...patch } });
+
+  // Any change makes an earlier check result stale
+  const updateGemini = (patch: Partial<AppSettings['gemini']>) => {
+    setKeyCheck(null);
+    onChange({ ...settings, gemini: { ...settings.gemini, ...patch } });
+  };
+
+  const handleTestKey = async () => {
+    setKeyCheck({ state: 'checking' });
+    try {
+      await validateGeminiConfig(settings.gemini);
+      setKeyCheck({ state: 'valid' });
+    } catch (e) {
+      setKeyCheck({ state: 'invalid', message: toGenerationError(e).message });
+    }
+  };
+
+  const keySources: { id: GeminiKeySource; label: string }[] = [
+    { id: 'own', label: 'My API key' },
+    { id: 'aistudio', label: 'AI Studio' },
+  ];
+  const chip = (active: boolean) => `
+    flex-1 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+  `;
+  // The fill mode matters when it is the provider or the fallback
+  const usesOfflineFill = settings.provider === 'offline' || settings.offline.fallback;
+  const input = "border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-lg font-bold text-gray-900">Settings</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section className="mb-6">
+          <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-3">Expansion Provider</h3>
+          <div className="flex flex-col gap-2">
+            {PROVIDER_OPTIONS.map((option) => {
+              const isSelected = settings.provider === option.id;
+              return (
+                <button
+                  key={option.id}
+                  onClick={() => onChange({ ...settings, provider: option.id })}
+                  className={`flex items-center justify-between text-left p-3 rounded-xl border-2 transition-all duration-200 ${
+                    isSelected ? 'border-pink-500 bg-pink-50' : 'border-gray-100 hover:border-gray-200'
+                  }`}
+                >
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900">{option.label}</p>
+                    <p className="text-[11px] text-gray-500">{option.description}</p>
+                  </div>
+                  {isSelected && <Check className="w-4 h-4 text-pink-600" />}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        {settings.provider === 'gemini' && (
+          <section className="mb-2">
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <KeyRound className="w-3 h-3" /> Gemini
+            </h3>
+            <div className="flex flex-col gap-3 text-[11px] text-gray-600">
+              <div className="flex flex-col gap-1">
+                API key
+                <div className="flex gap-2">
+                  {keySources.map((source) => (
+                    <button key={source.id} onClick={() => updateGemini({ keySource: source.id })} className={chip(settings.gemini.keySource === source.id)}>
+                      {source.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {settings.gemini.keySource === 'own' ? (
+                <div className="flex flex-col gap-1">
+                  <div className="flex gap-2">
+                    <div className="relative flex-1 min-w-0">
+                      <input
+                        type={showKey ? 'text' : 'password'}
+                        value={settings.gemini.apiKey}
+                        onChange={(e) => updateGemini({ apiKey: e.target.value })}
+                        placeholder="AIza…"
+                        autoComplete="off"
+                        spellCheck={false}
+                        className={`w-full pr-9 font-mono ${input}`}
+                      />
+                      <button
+                        onClick={() => setShowKey(!showKey)}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
+                        title={showKey ? 'Hide key' : 'Show key'}
+                      >
+                        {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </button>
+                    </div>
+                    <button
+                      onClick={handleTestKey}
+                      disabled={!settings.gemini.apiKey.trim() || keyCheck?.state === 'checking'}
+                      className="px-4 rounded-lg text-xs font-bold bg-gray-900 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {keyCheck?.state === 'checking' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Test'}
+                    </button>
+                  </div>
+                  {keyCheck?.state === 'valid' && (
+                    <p className="text-green-600 flex items-center gap-1"><Check className="w-3 h-3" /> Key works with this model and endpoint.</p>
+                  )}
+                  {keyCheck?.state === 'invalid' && <p className="text-red-500">{keyCheck.message}</p>}
+                  <p className="text-gray-400">
+                    Stored only in this browser and sent only to the endpoint below.{' '}
+                    <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">
+                      Get a key
+                    </a>
+                  </p>
+                </div>
+              ) : aiStudioAvailable ? (
+                <button onClick={onSelectAiStudioKey} className="self-start text-pink-600 font-medium hover:text-pink-700">
+                  Select a key in AI Studio
+                </button>
+              ) : (
+                <p className="text-gray-400">AI Studio keys are only available when the app runs inside AI Studio.</p>
+              )}
+
+              <label className="flex flex-col gap-1">
+                Model
+                <select
+                  value={settings.gemini.model}
+                  onChange={(e) => updateGemini({ model: e.target.value })}
+                  className={`bg-white ${input}`}
+                >
+                  {GEMINI_MODELS.map((model) => (
+                    <option key={model.id} value={model.id}>{`${model.label} · up to ${model.maxImageSize}`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Endpoint override
+                <input
+                  type="url"
+                  value={settings.gemini.baseUrl}
+                  onChange={(e) => updateGemini({ baseUrl: e.target.value })}
+                  placeholder="https://generativelanguage.googleapis.com"
+                  className={input}
+                />
+              </label>
+            </div>
+          </section>
+        )}
+
+        {settings.provider === 'local' && (
+          <section className="mb-2">
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <Server className="w-3 h-3" /> A1111-Compatible Server
+            </h3>
+            <div className="flex flex-col gap-3 text-[11px] text-gray-600">
+              <label className="flex flex-col gap-1">
+                Base URL
+                <input
+                  type="url"
+                  value={settings.local.baseUrl}
+                  onChange={(e) => updateLocal({ baseUrl: e.target.value })}
+                  className="border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900"
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1">
+                  Steps
+                  <input
+                    type="number"
+                    min={1}
+                    max={150}
+                    value={settings.local.steps}
+                    onChange={(e) => updateLocal({ steps: Number(e.target.value) })}
+                    className="border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  Denoising strength
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={settings.local.denoisingStrength}
+                    onChange={(e) => updateLocal({ denoisingStrength: Number(e.target.value) })}
+                    className="border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-900"
+                  />
+                </label>
+              </div>
+            </div>
+          </section>
+        )}
+
+        <section className="mb-2 mt-6">
+          <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-3 flex items-center gap-2">
+            <ShieldCheck className="w-3 h-3" /> Quality Check
+          </h3>
+          <div className="flex flex-col gap-3 text-[11px] text-gray-600">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                Minimum similarity
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.quality.threshold}
+                  onChange={(e) => updateQuality({ threshold: Number(e.target.value) })}
+                  className={input}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Attempts
+                <input
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={settings.quality.maxAttempts}
+                  onChange={(e) => updateQuality({ maxAttempts: Number(e.target.value) })}
+                  className={input}
+                />
+              </label>
+            </div>
+            <span className="text-gray-400">
+              Outputs whose original region scores below the similarity are generated again, up to the number of attempts.
+            </span>
+          </div>
+        </section>
+
+        {settings.provider !== 'mock' && (
+          <section className="mb-2 mt-6">
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <Layers className="w-3 h-3" /> Offline Fill
+            </h3>
+            <div className="flex flex-col gap-3 text-[11px] text-gray-600">
+              {supportsOfflineFallback(settings.provider) && (
+                <div className="flex flex-col gap-1">
+                  When a request fails
+                  <div className="flex gap-2">
+                    <button onClick={() => updateOffline({ fallback: false })} className={chip(!settings.offline.fallback)}>
+                      Show the error
+                    </button>
+                    <button onClick={() => updateOffline({ fallback: true })} className={chip(settings.offline.fallback)}>
+                      Fill offline
+                    </button>
+                  </div>
+                </div>
+              )}
+              {usesOfflineFill && (
+                <div className="flex flex-col gap-1">
+                  Fill mode
+                  <div className="grid grid-cols-2 gap-2">
+                    {FILL_MODES.map((mode) => (
+                      <button
+                        key={mode.id}
+                        onClick={() => updateOffline({ mode: mode.id })}
+                        title={mode.description}
+                        className={chip(settings.offline.mode === mode.id)}
+                      >
+                        {mode.label}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-gray-400">
+                    {FILL_MODES.find((mode) => mode.id === settings.offline.mode)?.description}
+                  </span>
+                </div>
+              )}
+              {usesOfflineFill && settings.offline.mode === 'brand' && (
+                <label className="flex items-center gap-2">
+                  Brand colour
+                  <input
+                    type="color"
+                    value={settings.offline.brandColor}
+                    onChange={(e) => updateOffline({ brandColor: e.target.value })}
+                    className="w-10 h-8 rounded border border-gray-200 bg-white"
+                  />
+                  <span className="font-mono text-gray-400">{settings.offline.brandColor}</span>
+                </label>
+              )}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Wallet } from 'lucide-react';
+import { Button } from './Button';
+import { ImageSize } from '../types';
+import {
+  BudgetScope,
+  ModelPrice,
+  UsageRecord,
+  UsageSettings,
+  UsageTotals,
+  checkBudget,
+  clearUsage,
+  findPrice,
+  formatCost,
+  loadUsage,
+  recordsInScope,
+  summarizeUsage,
+  usageByDay,
+} from '../services/usageService';
+import { RESOLUTIONS } from '../services/upscaleService';
+
+interface UsagePanelProps {
+  settings: UsageSettings;
+  onChange: (settings: UsageSettings) => void;
+  onClose: () => void;
+}
+
+// Days listed in the per-day table
+const DAYS_SHOWN = 14;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 10_000 ? `${(tokens / 1000).toFixed(0)}k` : tokens.toLocaleString();
+
+const TotalsCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="flex-1 rounded-xl border border-gray-100 bg-gray-50 p-3">
+    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{title}</p>
+    <p className="text-lg font-bold text-gray-900">{formatCost(totals.cost)}</p>
+    <p className="text-[11px] text-gray-500">
+      {totals.images} images · {totals.requests} requests
+    </p>
+    <p className="text-[11px] text-gray-500">
+      {formatTokens(totals.inputTokens + totals.outputTokens)} tokens
+      {totals.requests > 0 && ` · ${(totals.latencyMs / totals.requests / 1000).toFixed(1)}s avg`}
+    </p>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onChange, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+
+  useEffect(() => {
+    setRecords(loadUsage());
+  }, []);
+
+  const update = (patch: Partial<UsageSettings>) => onChange({ ...settings, ...patch });
+
+  // Models that were used but have no price yet are listed too, priced at zero
+  const models = Array.from<string>(new Set([...settings.prices.map((price) => price.model), ...records.map((record) => record.model)]));
+  const priceFor = (model: string): ModelPrice =>
+    findPrice(settings.prices, model) ?? { model, inputPerMillionTokens: 0, perImage: { '1K': 0, '2K': 0, '4K': 0 } };
+
+  const updatePrice = (model: string, patch: Partial<ModelPrice>) => {
+    const next = { ...priceFor(model), ...patch };
+    const others = settings.prices.filter((price) => price.model !== model);
+    update({ prices: [...others, next] });
+  };
+
+  const updateImagePrice = (model: string, size: ImageSize, value: number) =>
+    updatePrice(model, { perImage: { ...priceFor(model).perImage, [size]: value } });
+
+  const handleClear = () => {
+    clearUsage();
+    setRecords([]);
+  };
+
+  const budget = checkBudget(settings, 0, records);
+  const session = summarizeUsage(recordsInScope(records, 'session'), settings.prices);
+  const today = summarizeUsage(recordsInScope(records, 'day'), settings.prices);
+  const days = usageByDay(records, settings.prices).slice(0, DAYS_SHOWN);
+
+  const chip = (active: boolean) => `
+    flex-1 px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-colors
+    ${active ? 'border-pink-500 bg-pink-50 text-pink-700' : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-50'}
+  `;
+  const numberInput = "w-full border border-gray-200 rounded-lg px-2 py-1.5 text-sm text-gray-900";
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-lg font-bold text-gray-900">Usage</h2>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-500 hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-6 text-[11px] text-gray-600">
+          <div className="flex gap-3">
+            <TotalsCard title="This session" totals={session} />
+            <TotalsCard title="Today" totals={today} />
+          </div>
+
+          <section>
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2 flex items-center gap-2">
+              <Wallet className="w-3 h-3" /> Budget
+            </h3>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                Cap in USD
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  placeholder="No cap"
+                  value={settings.budgetCap ?? ''}
+                  onChange={(e) => update({ budgetCap: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                  className={numberInput}
+                />
+              </label>
+              <div className="flex flex-col gap-1">
+                Applies to
+                <div className="flex gap-2">
+                  {(['session', 'day'] as BudgetScope[]).map((scope) => (
+                    <button key={scope} onClick={() => update({ budgetScope: scope })} className={chip(settings.budgetScope === scope)}>
+                      {scope === 'session' ? 'Session' : 'Day'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {budget.cap !== null && (
+              <>
+                <div className="mt-3 h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                  <div
+                    className={`h-full ${budget.state === 'blocked' ? 'bg-red-500' : 'bg-pink-500'}`}
+                    style={{ width: `${budget.cap > 0 ? Math.min(100, (budget.spent / budget.cap) * 100) : 100}%` }}
+                  />
+                </div>
+                <p className={`mt-1.5 ${budget.state === 'blocked' ? 'text-red-500' : 'text-gray-500'}`}>
+                  {formatCost(budget.spent)} of {formatCost(budget.cap)} used
+                  {budget.state === 'blocked' && ' · new generations are blocked'}
+                </p>
+              </>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">Per day</h3>
+            {days.length === 0 ? (
+              <p className="text-gray-400">No billed requests yet.</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className="font-medium py-1">Day</th>
+                    <th className="font-medium py-1 text-right">Images</th>
+                    <th className="font-medium py-1 text-right">Tokens</th>
+                    <th className="font-medium py-1 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map(({ day, totals }) => (
+                    <tr key={day} className="border-t border-gray-100">
+                      <td className="py-1">{day}</td>
+                      <td className="py-1 text-right">{totals.images}</td>
+                      <td className="py-1 text-right">{formatTokens(totals.inputTokens + totals.outputTokens)}</td>
+                      <td className="py-1 text-right font-semibold text-gray-900">{formatCost(totals.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-xs font-bold text-gray-900 uppercase tracking-wider mb-2">Prices (USD)</h3>
+            <div className="flex flex-col gap-4">
+              {models.map((model) => {
+                const price = priceFor(model);
+                return (
+                  <div key={model}>
+                    <p className="font-mono text-gray-900 mb-1.5 truncate">{model}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      <label className="flex flex-col gap-1">
+                        Input / 1M tok.
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={price.inputPerMillionTokens}
+                          onChange={(e) => updatePrice(model, { inputPerMillionTokens: Math.max(0, Number(e.target.value)) })}
+                          className={numberInput}
+                        />
+                      </label>
+                      {RESOLUTIONS.map((resolution) => (
+                        <label key={resolution.id} className="flex flex-col gap-1">
+                          {resolution.id} image
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.001}
+                            value={price.perImage[resolution.id]}
+                            onChange={(e) => updateImagePrice(model, resolution.id, Math.max(0, Number(e.target.value)))}
+                            className={numberInput}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="mt-2 text-gray-400">Costs are estimates from these prices and the token counts the API reports.</p>
+          </section>
+        </div>
+
+        <div className="mt-6">
+          <Button onClick={handleClear} fullWidth variant="ghost" disabled={records.length === 0}>
+            Clear usage log <Trash2 className="w-4 h-4 ml-2" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Star, X, Undo2, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { FormatId, VariantJob } from '../types';
+import { getFormat } from '../services/formatService';
+
+interface VariantPickerProps {
+  variants: VariantJob[];
+  ratio: FormatId;
+  chosenId: string | null;
+  onChoose: (id: string) => void;
+  onToggleReject: (id: string) => void;
+  onRegenerateRejected: () => void;
+  disabled?: boolean;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({
+  variants,
+  ratio,
+  chosenId,
+  onChoose,
+  onToggleReject,
+  onRegenerateRejected,
+  disabled,
+}) => {
+  const target = getFormat(ratio).ratio;
+  const redoCount = variants.filter((variant) => variant.rejected || variant.status === 'error').length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 gap-3">
+        {variants.map((variant, index) => {
+          const isChosen = variant.id === chosenId;
+
+          return (
+            <div
+              key={variant.id}
+              className={`relative rounded-xl overflow-hidden border-2 bg-gray-100 transition-all ${
+                isChosen ? 'border-pink-500 shadow-lg shadow-pink-100' : 'border-gray-100'
+              } ${variant.rejected ? 'opacity-40' : ''}`}
+              style={{ aspectRatio: `${target.width}/${target.height}` }}
+            >
+              {variant.result && (
+                <button
+                  onClick={() => onChoose(variant.id)}
+                  disabled={variant.rejected}
+                  className="absolute inset-0 w-full h-full"
+                  title="Use this variant"
+                >
+                  <img src={variant.result.url} alt={`Variant ${index + 1}`} className="w-full h-full object-cover" />
+                </button>
+              )}
+              {variant.status === 'generating' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-pink-500">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                  {variant.attempt > 1 && <span className="text-[10px] mt-1">Attempt {variant.attempt}</span>}
+                </div>
+              )}
+              {variant.status === 'error' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-red-500 px-2 text-center" title={variant.error}>
+                  <AlertCircle className="w-5 h-5" />
+                  <span className="text-[10px] mt-1">Failed</span>
+                </div>
+              )}
+
+              <span className="absolute top-1.5 left-1.5 text-[10px] font-semibold bg-black/50 text-white px-1.5 py-0.5 rounded-full">
+                {index + 1}
+                {variant.result?.quality && ` · ${variant.result.quality.score.toFixed(2)}`}
+              </span>
+              {variant.status === 'success' && (
+                <div className="absolute top-1 right-1 flex gap-1">
+                  <button
+                    onClick={() => onChoose(variant.id)}
+                    disabled={disabled || variant.rejected}
+                    className={`p-1 rounded-full bg-white/90 ${isChosen ? 'text-pink-600' : 'text-gray-400 hover:text-gray-900'}`}
+                    title="Star as best"
+                  >
+                    <Star className={`w-3.5 h-3.5 ${isChosen ? 'fill-current' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => onToggleReject(variant.id)}
+                    disabled={disabled}
+                    className="p-1 rounded-full bg-white/90 text-gray-400 hover:text-gray-900"
+                    title={variant.rejected ? 'Keep' : 'Discard'}
+                  >
+                    {variant.rejected ? <Undo2 className="w-3.5 h-3.5" /> : <X className="w-3.5 h-3.5" />}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {redoCount > 0 && (
+        <button
+          onClick={onRegenerateRejected}
+          disabled={disabled}
+          className="self-center flex items-center gap-1.5 text-xs font-medium text-pink-600 hover:text-pink-700 disabled:opacity-40"
+        >
+          <RefreshCw className="w-3 h-3" />
+          Regenerate {redoCount} {redoCount === 1 ? 'variant' : 'variants'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { GenerationStatus } from "../types";
+
+export interface QueueItem<T, R> {
+  id: string;
+  input: T;
+  status: GenerationStatus;
+  result?: R;
+  error?: string;
+  // Number of times the worker was started for this item
+  runs: number;
+}
+
+export interface BatchQueueOptions<T, R> {
+  worker: (input: T, signal: AbortSignal) => Promise<R>;
+  concurrency?: number;
+  // Queues created paused only start working after resume()
+  paused?: boolean;
+  onChange?: (items: QueueItem<T, R>[], paused: boolean) => void;
+}
+
+export interface BatchQueue<T, R> {
+  add: (inputs: T[]) => void;
+  pause: () => void;
+  resume: () => void;
+  // Aborts running items and marks everything unfinished as cancelled
+  cancel: () => void;
+  // Runs a failed or cancelled item again, also while the queue is paused
+  retry: (id: string) => void;
+  clear: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getItems: () => QueueItem<T, R>[];
+}
+
+export const CANCELLED_MESSAGE = "Cancelled";
+
+// Job queue with per-item status, pause/resume/cancel and a concurrency limit.
+// Items use the app's GenerationStatus values: 'idle' means waiting.
+export const createBatchQueue = <T, R>(options: BatchQueueOptions<T, R>): BatchQueue<T, R> => {
+  let items: QueueItem<T, R>[] = [];
+  let paused = options.paused ?? false;
+  let concurrency = Math.max(1, options.concurrency ?? 2);
+  let nextId = 0;
+  // Each run's controller stays here until its worker settles, aborted or
+  // not, so cancelled runs still count towards the concurrency limit
+  const running = new Set<AbortController>();
+  // Items retried by hand, started even while the queue is paused
+  const retried = new Set<string>();
+
+  const emit = () => options.onChange?.(items, paused);
+
+  const update = (id: string, patch: Partial<QueueItem<T, R>>) => {
+    items = items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+    emit();
+  };
+
+  const start = (item: QueueItem<T, R>) => {
+    const controller = new AbortController();
+    running.add(controller);
+    update(item.id, { status: 'generating', error: undefined, runs: item.runs + 1 });
+
+    options.worker(item.input, controller.signal)
+      .then(
+        (result) => {
+          if (!controller.signal.aborted) update(item.id, { status: 'success', result });
+        },
+        (err) => {
+          if (!controller.signal.aborted) {
+            update(item.id, { status: 'error', error: err?.message || "Something went wrong." });
+          }
+        }
+      )
+      .finally(() => {
+        running.delete(controller);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    while (running.size < concurrency) {
+      const next = items.find((item) => item.status === 'idle' && (!paused || retried.has(item.id)));
+      if (!next) return;
+      retried.delete(next.id);
+      start(next);
+    }
+  };
+
+  return {
+    add: (inputs) => {
+      items = [
+        ...items,
+        ...inputs.map((input) => ({ id: `job-${++nextId}`, input, status: 'idle' as const, runs: 0 })),
+      ];
+      emit();
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      emit();
+      pump();
+    },
+    cancel: () => {
+      running.forEach((controller) => controller.abort());
+      retried.clear();
+      paused = true;
+      items = items.map((item) =>
+        item.status === 'idle' || item.status === 'generating'
+          ? { ...item, status: 'error', error: CANCELLED_MESSAGE }
+          : item
+      );
+      emit();
+    },
+    retry: (id) => {
+      const item = items.find((i) => i.id === id);
+      if (!item || item.status !== 'error') return;
+      retried.add(id);
+      update(id, { status: 'idle', error: undefined });
+      pump();
+    },
+    clear: () => {
+      running.forEach((controller) => controller.abort());
+      retried.clear();
+      items = [];
+      emit();
+    },
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    getItems: () => items,
+  };
+};
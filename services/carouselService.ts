@@ -0,0 +1,263 @@
+import { AspectRatio, ExpansionMetadata, ExpansionProvider, FormatId, PaddedCanvas, Placement, RatioSize } from "../types";
+import { geminiProvider } from "./geminiService";
+import { createCanvas, loadImage, stripDataUrl } from "./imageService";
+import { throwIfCancelled } from "./errorService";
+import { INSTAGRAM_PORTRAIT, INSTAGRAM_SQUARE, getFormat } from "./formatService";
+
+export const MIN_SLIDES = 2;
+export const MAX_SLIDES = 10;
+
+// Tile formats Instagram accepts in a carousel
+export const CAROUSEL_RATIOS: FormatId[] = [INSTAGRAM_SQUARE, INSTAGRAM_PORTRAIT];
+
+// Height of the working panorama; every pass generates at most this square
+const WORKING_HEIGHT = 1024;
+// Share of each pass window that must already be filled, so passes line up
+const PASS_OVERLAP = 1 / 3;
+// Blur radius of the band where a pass fades into earlier ones, in working pixels
+const SEAM_FEATHER = 24;
+
+export interface CarouselOptions {
+  slides: number;
+  tileRatio: FormatId;
+  provider?: ExpansionProvider;
+  prompt?: string;
+  onPass?: (pass: number, totalPasses: number) => void;
+  throttle?: () => Promise<void>;
+  signal?: AbortSignal;
+}
+
+export interface CarouselResult {
+  // Full panorama at export size, slides * tile width wide
+  panoramaUrl: string;
+  // Tiles in slide order, each exactly `tileSize`
+  tiles: string[];
+  tileSize: RatioSize;
+  tileRatio: FormatId;
+  passes: number;
+  metadata?: ExpansionMetadata;
+}
+
+export interface CarouselPlan {
+  width: number;
+  height: number;
+  // Where the photo sits in the panorama
+  placement: Placement;
+  // Horizontal windows, generated in order. Each overlaps filled pixels.
+  windows: { x: number; width: number }[];
+}
+
+// Photo centred at full height (or full width when it is wider than the
+// panorama), then windows walking outwards from it
+export const planCarousel = (
+  slides: number,
+  tileRatio: FormatId,
+  imageWidth: number,
+  imageHeight: number,
+  windowAspect: number
+): CarouselPlan => {
+  const tile = getFormat(tileRatio).ratio;
+  const height = WORKING_HEIGHT;
+  const tileWidth = Math.round((height * tile.width) / tile.height);
+  const width = tileWidth * slides;
+
+  const scale = Math.min(width / imageWidth, height / imageHeight);
+  const pw = Math.round(imageWidth * scale);
+  const ph = Math.round(imageHeight * scale);
+  const placement = { x: Math.round((width - pw) / 2), y: Math.round((height - ph) / 2), width: pw, height: ph };
+
+  const windowWidth = Math.min(width, Math.round(height * windowAspect));
+  const step = Math.max(1, Math.round(windowWidth * (1 - PASS_OVERLAP)));
+  const windows: { x: number; width: number }[] = [];
+
+  // Fill above and below the photo first when it does not span the full height
+  if (ph < height) {
+    let x = Math.max(0, Math.min(width - windowWidth, placement.x));
+    for (;;) {
+      windows.push({ x, width: windowWidth });
+      if (x + windowWidth >= placement.x + pw) break;
+      x = Math.min(width - windowWidth, x + step);
+    }
+  }
+  const filledLeft = windows.length ? Math.min(placement.x, windows[0].x) : placement.x;
+  const filledRight = windows.length
+    ? Math.max(placement.x + pw, windows[windows.length - 1].x + windowWidth)
+    : placement.x + pw;
+
+  // Then alternate right and left so both sides grow from the photo
+  let left = filledLeft;
+  let right = filledRight;
+  while (left > 0 || right < width) {
+    if (right < width) {
+      const x = Math.min(width - windowWidth, right - Math.round(windowWidth * PASS_OVERLAP));
+      windows.push({ x, width: windowWidth });
+      right = x + windowWidth;
+    }
+    if (left > 0) {
+      const x = Math.max(0, left - windowWidth + Math.round(windowWidth * PASS_OVERLAP));
+      windows.push({ x, width: windowWidth });
+      left = x;
+    }
+  }
+
+  return { width, height, placement, windows };
+};
+
+// Cuts a window out of the panorama as a padded canvas: transparent where
+// nothing is generated yet, with a mask that is white over those pixels
+const windowCanvas = (panorama: HTMLCanvasElement, x: number, width: number): PaddedCanvas => {
+  const height = panorama.height;
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(panorama, x, 0, width, height, 0, 0, width, height);
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+  const mask = maskCtx.createImageData(width, height);
+  let minX = width;
+  let maxX = 0;
+  let minY = height;
+  let maxY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let px = 0; px < width; px++) {
+      const i = (y * width + px) * 4;
+      const filled = pixels.data[i + 3] >= 128;
+      const value = filled ? 0 : 255;
+      mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = value;
+      mask.data[i + 3] = 255;
+      if (filled) {
+        minX = Math.min(minX, px);
+        maxX = Math.max(maxX, px);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  maskCtx.putImageData(mask, 0, 0);
+
+  return {
+    imageBase64: stripDataUrl(canvas.toDataURL('image/png')),
+    maskBase64: stripDataUrl(maskCanvas.toDataURL('image/png')),
+    width,
+    height,
+    placement: { x: minX, y: minY, width: Math.max(0, maxX - minX + 1), height: Math.max(0, maxY - minY + 1) },
+  };
+};
+
+const clampSlides = (slides: number) => Math.min(MAX_SLIDES, Math.max(MIN_SLIDES, Math.round(slides)));
+
+// Providers with fixed ratios get square windows, the rest wider ones
+const planFor = (img: HTMLImageElement, slides: number, tileRatio: FormatId, provider: ExpansionProvider) =>
+  planCarousel(slides, tileRatio, img.naturalWidth, img.naturalHeight, provider.supportsAnyRatio ? 2 : 1);
+
+// Upper bound of the model requests a carousel needs; windows that turn
+// out to be filled already are skipped
+export const countCarouselPasses = async (
+  sourceUrl: string,
+  slides: number,
+  tileRatio: FormatId,
+  provider: ExpansionProvider = geminiProvider
+): Promise<number> => planFor(await loadImage(sourceUrl), clampSlides(slides), tileRatio, provider).windows.length;
+
+// Draws a pass's output into its window: it fills the empty pixels and fades
+// into the ones earlier passes filled, so no seam shows at the boundary.
+// The photo itself is left untouched.
+const blendPass = (
+  ctx: CanvasRenderingContext2D,
+  output: CanvasImageSource,
+  x: number,
+  width: number,
+  photo: Placement
+) => {
+  const height = ctx.canvas.height;
+  // Opaque where the window was still empty
+  const { canvas: empty, ctx: emptyCtx } = createCanvas(width, height);
+  emptyCtx.fillStyle = '#ffffff';
+  emptyCtx.fillRect(0, 0, width, height);
+  emptyCtx.globalCompositeOperation = 'destination-out';
+  emptyCtx.drawImage(ctx.canvas, x, 0, width, height, 0, 0, width, height);
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.drawImage(output, x, 0, width, height);
+  ctx.restore();
+
+  // The blurred mask reaches into the filled pixels next to the empty ones
+  const { canvas: band, ctx: bandCtx } = createCanvas(width, height);
+  bandCtx.drawImage(output, 0, 0, width, height);
+  bandCtx.globalCompositeOperation = 'destination-in';
+  bandCtx.filter = `blur(${SEAM_FEATHER}px)`;
+  bandCtx.drawImage(empty, 0, 0);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, ctx.canvas.width, height);
+  ctx.rect(photo.x, photo.y, photo.width, photo.height);
+  ctx.clip('evenodd');
+  ctx.drawImage(band, x, 0);
+  ctx.restore();
+};
+
+// Expands one photo into a wide panorama in several outpainting passes and
+// splits it into exactly aligned Instagram tiles
+export const generateCarousel = async (
+  sourceUrl: string,
+  options: CarouselOptions
+): Promise<CarouselResult> => {
+  const provider = options.provider ?? geminiProvider;
+  const slides = clampSlides(options.slides);
+  const img = await loadImage(sourceUrl);
+  const plan = planFor(img, slides, options.tileRatio, provider);
+
+  const { canvas: panorama, ctx } = createCanvas(plan.width, plan.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, plan.placement.x, plan.placement.y, plan.placement.width, plan.placement.height);
+
+  let metadata: ExpansionMetadata | undefined;
+  for (let i = 0; i < plan.windows.length; i++) {
+    throwIfCancelled(options.signal);
+    options.onPass?.(i + 1, plan.windows.length);
+
+    const { x, width } = plan.windows[i];
+    const canvas = windowCanvas(panorama, x, width);
+    // Nothing left to fill in this window, so no request to budget for
+    if (canvas.placement.width === width && canvas.placement.height === plan.height) continue;
+    await options.throttle?.();
+    throwIfCancelled(options.signal);
+
+    const response = await provider.expand({
+      imageBase64: canvas.imageBase64,
+      mimeType: 'image/png',
+      targetRatio: AspectRatio.SQUARE,
+      exactRatio: { width, height: plan.height },
+      prompt: `${options.prompt?.trim() || "Expand this image naturally."} This is part of a wide panorama that continues seamlessly across an Instagram carousel.`,
+      canvas,
+      signal: options.signal,
+    });
+    metadata = response.metadata;
+
+    blendPass(ctx, await loadImage(response.images[0]), x, width, plan.placement);
+  }
+  throwIfCancelled(options.signal);
+
+  // Scale to the export size so every tile is exactly Instagram's size
+  const tileSize = getFormat(options.tileRatio).size;
+  const { canvas: full, ctx: fullCtx } = createCanvas(tileSize.width * slides, tileSize.height);
+  fullCtx.imageSmoothingQuality = 'high';
+  fullCtx.drawImage(panorama, 0, 0, full.width, full.height);
+
+  const tiles: string[] = [];
+  for (let i = 0; i < slides; i++) {
+    const { canvas: tile, ctx: tileCtx } = createCanvas(tileSize.width, tileSize.height);
+    tileCtx.drawImage(full, i * tileSize.width, 0, tileSize.width, tileSize.height, 0, 0, tileSize.width, tileSize.height);
+    tiles.push(tile.toDataURL('image/png'));
+  }
+
+  return {
+    panoramaUrl: full.toDataURL('image/png'),
+    tiles,
+    tileSize,
+    tileRatio: options.tileRatio,
+    passes: plan.windows.length,
+    metadata,
+  };
+};
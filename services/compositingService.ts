@@ -0,0 +1,213 @@
+import { Placement } from "../types";
+import { PixelBuffer, PixelCodec, downsampleLuma } from "./imageService";
+
+export interface LocatedPlacement extends Placement {
+  // Mean absolute luma difference between original and output, 0..1
+  difference: number;
+}
+
+export interface FeatherEdges {
+  top: boolean;
+  right: boolean;
+  bottom: boolean;
+  left: boolean;
+}
+
+export interface RestoreOptions {
+  // Width of the blended seam in output pixels. Defaults to 2% of the placement.
+  feather?: number;
+  // Above this difference the match is not trusted and nothing is pasted
+  maxDifference?: number;
+  // Skips the search when the placement is already known. A placement
+  // without a match difference is trusted as is.
+  placement?: Placement | LocatedPlacement | null;
+}
+
+const COARSE_SIZE = 128;
+const FINE_SIZE = 384;
+const DEFAULT_MAX_DIFFERENCE = 0.12;
+
+const workSize = (width: number, height: number, max: number) => {
+  const k = Math.min(1, max / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * k)), height: Math.max(1, Math.round(height * k)) };
+};
+
+interface Candidate {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+// Exhaustive template match of the original, at each of the given template
+// widths, over a window of offsets in the output luma plane.
+const searchPlacement = (
+  output: Float32Array,
+  outW: number,
+  outH: number,
+  original: PixelBuffer,
+  widths: number[],
+  xRange: [number, number],
+  yRange: [number, number]
+): Candidate | null => {
+  let best: Candidate | null = null;
+  const aspect = original.height / original.width;
+
+  for (const tw of widths) {
+    const th = Math.round(tw * aspect);
+    if (tw < 4 || th < 4 || tw > outW || th > outH) continue;
+
+    const template = downsampleLuma(original, tw, th);
+    const step = tw > 32 ? 2 : 1;
+    const x0 = Math.max(0, xRange[0]);
+    const x1 = Math.min(outW - tw, xRange[1]);
+    const y0 = Math.max(0, yRange[0]);
+    const y1 = Math.min(outH - th, yRange[1]);
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        let sum = 0;
+        let n = 0;
+        for (let ty = 0; ty < th; ty += step) {
+          const row = (y + ty) * outW + x;
+          for (let tx = 0; tx < tw; tx += step) {
+            sum += Math.abs(output[row + tx] - template[ty * tw + tx]);
+            n++;
+          }
+        }
+        const score = sum / n;
+        if (!best || score < best.score) {
+          best = { x, y, width: tw, height: th, score };
+        }
+      }
+    }
+  }
+  return best;
+};
+
+// Finds where (scale plus offset) the original sits inside the output.
+// Runs a coarse search over scales and offsets, then refines it at a higher
+// working resolution around the coarse hit.
+export const locateOriginal = (original: PixelBuffer, output: PixelBuffer): LocatedPlacement | null => {
+  const coarse = workSize(output.width, output.height, COARSE_SIZE);
+  const coarseLuma = downsampleLuma(output, coarse.width, coarse.height);
+  const fit = Math.min(coarse.width / original.width, coarse.height / original.height);
+
+  const coarseWidths: number[] = [];
+  for (let s = 1; s >= 0.6; s -= 0.025) {
+    coarseWidths.push(Math.round(original.width * fit * s));
+  }
+  const hit = searchPlacement(
+    coarseLuma, coarse.width, coarse.height, original,
+    Array.from(new Set(coarseWidths)),
+    [0, coarse.width], [0, coarse.height]
+  );
+  if (!hit) return null;
+
+  const fine = workSize(output.width, output.height, FINE_SIZE);
+  const fineLuma = downsampleLuma(output, fine.width, fine.height);
+  const k = fine.width / coarse.width;
+  const fineWidths: number[] = [];
+  for (let d = -2 * Math.ceil(k); d <= 2 * Math.ceil(k); d++) {
+    fineWidths.push(Math.round(hit.width * k) + d);
+  }
+  const radius = 2 * Math.ceil(k);
+  const refined = searchPlacement(
+    fineLuma, fine.width, fine.height, original, fineWidths,
+    [Math.round(hit.x * k) - radius, Math.round(hit.x * k) + radius],
+    [Math.round(hit.y * k) - radius, Math.round(hit.y * k) + radius]
+  ) ?? { ...hit, x: hit.x * k, y: hit.y * k, width: hit.width * k, height: hit.height * k };
+
+  const toOutput = output.width / fine.width;
+  return {
+    x: Math.round(refined.x * toOutput),
+    y: Math.round(refined.y * toOutput),
+    width: Math.round(refined.width * toOutput),
+    height: Math.round(refined.height * toOutput),
+    difference: refined.score / 255,
+  };
+};
+
+// Alpha mask (0..1 per pixel) that fades out towards the given edges over
+// `feather` pixels with a smoothstep curve. Edges not listed stay opaque.
+export const featherMask = (
+  width: number,
+  height: number,
+  feather: number,
+  edges: FeatherEdges
+): Float32Array => {
+  const mask = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let d = Infinity;
+      if (edges.left) d = Math.min(d, x);
+      if (edges.right) d = Math.min(d, width - 1 - x);
+      if (edges.top) d = Math.min(d, y);
+      if (edges.bottom) d = Math.min(d, height - 1 - y);
+      const t = feather > 0 ? Math.min(1, d / feather) : 1;
+      mask[y * width + x] = t * t * (3 - 2 * t);
+    }
+  }
+  return mask;
+};
+
+// Only seams that border generated content need blending
+export const seamEdges = (placement: Placement, outW: number, outH: number): FeatherEdges => ({
+  top: placement.y > 1,
+  left: placement.x > 1,
+  bottom: placement.y + placement.height < outH - 1,
+  right: placement.x + placement.width < outW - 1,
+});
+
+// Finds the original in a decoded output, matching against a copy of the
+// original at the fine working size
+export const locateOriginalInImage = async (
+  output: PixelBuffer,
+  original: PixelBuffer,
+  codec: PixelCodec
+): Promise<LocatedPlacement | null> => {
+  const size = workSize(original.width, original.height, FINE_SIZE);
+  return locateOriginal(await codec.resize(original, size.width, size.height), output);
+};
+
+// Pastes the original pixels back over the region the model was told to keep,
+// blending the seam so the restored area does not show a hard edge. `output`
+// is changed in place; returns the placement used, or null when nothing was
+// pasted.
+export const restoreOriginal = async (
+  output: PixelBuffer,
+  original: PixelBuffer,
+  codec: PixelCodec,
+  options: RestoreOptions = {}
+): Promise<Placement | null> => {
+  const placement = options.placement !== undefined
+    ? options.placement
+    : await locateOriginalInImage(output, original, codec);
+  const maxDifference = options.maxDifference ?? DEFAULT_MAX_DIFFERENCE;
+  const difference = placement && (placement as Partial<LocatedPlacement>).difference;
+  if (!placement || (difference !== undefined && difference > maxDifference)) {
+    return null;
+  }
+
+  const feather = options.feather ?? Math.max(4, Math.round(Math.min(placement.width, placement.height) * 0.02));
+  const patch = await codec.resize(original, placement.width, placement.height);
+  const mask = featherMask(placement.width, placement.height, feather, seamEdges(placement, output.width, output.height));
+
+  // Source-over of the masked patch, clipped to the output
+  for (let py = Math.max(0, -placement.y); py < Math.min(placement.height, output.height - placement.y); py++) {
+    for (let px = Math.max(0, -placement.x); px < Math.min(placement.width, output.width - placement.x); px++) {
+      const p = py * placement.width + px;
+      const o = ((placement.y + py) * output.width + placement.x + px) * 4;
+      const alpha = (patch.data[p * 4 + 3] / 255) * mask[p];
+      const below = (output.data[o + 3] / 255) * (1 - alpha);
+      const total = alpha + below;
+      if (total === 0) continue;
+      for (let c = 0; c < 3; c++) {
+        output.data[o + c] = (patch.data[p * 4 + c] * alpha + output.data[o + c] * below) / total;
+      }
+      output.data[o + 3] = total * 255;
+    }
+  }
+  return placement;
+};
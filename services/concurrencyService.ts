@@ -0,0 +1,38 @@
+// Runs `worker` over every item with at most `limit` in flight at once.
+// Results keep the order of `items`; a failing worker rejects the whole run,
+// so workers that should not abort their siblings must catch their own errors.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane);
+  await Promise.all(lanes);
+  return results;
+};
+
+// Spaces calls out so that at most `requestsPerMinute` start per minute.
+// Await the returned function before each API request.
+export const createRateLimiter = (requestsPerMinute: number) => {
+  const interval = 60000 / Math.max(1, requestsPerMinute);
+  let nextSlot = 0;
+
+  return async (): Promise<void> => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    nextSlot = Math.max(now, nextSlot) + interval;
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  };
+};
@@ -0,0 +1,42 @@
+import { ZipEntry, createZip } from "./zipService";
+
+export const triggerDownload = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(',')[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Repeated names get a counter, e.g. when the file name template leaves
+// out what tells two images apart
+const uniqueNames = (entries: ZipEntry[]): ZipEntry[] => {
+  const seen = new Map<string, number>();
+  return entries.map((entry) => {
+    const count = (seen.get(entry.name) ?? 0) + 1;
+    seen.set(entry.name, count);
+    if (count === 1) return entry;
+    const dot = entry.name.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [entry.name.slice(0, dot), entry.name.slice(dot)] : [entry.name, ''];
+    return { ...entry, name: `${stem}-${count}${extension}` };
+  });
+};
+
+// Builds the ZIP in the browser and hands it to the user as one download
+export const downloadZip = (entries: ZipEntry[], filename: string) => {
+  const blob = new Blob([createZip(uniqueNames(entries))], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  triggerDownload(url, filename);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
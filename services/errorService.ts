@@ -0,0 +1,144 @@
+export type GenerationErrorCode =
+  | 'invalid-key'
+  | 'quota'
+  | 'safety'
+  | 'no-image'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'budget'
+  | 'unknown';
+
+// What the UI offers to get past an error
+export type RecoveryAction = 'select-key' | 'retry' | 'edit-prompt' | 'open-settings' | 'open-usage' | 'none';
+
+interface ErrorDetails {
+  message: string;
+  action: RecoveryAction;
+  // Worth retrying automatically with backoff
+  transient: boolean;
+}
+
+const ERROR_DETAILS: Record<GenerationErrorCode, ErrorDetails> = {
+  'invalid-key': {
+    message: "API Key issue. Please select or enter your key again.",
+    action: 'select-key',
+    transient: false,
+  },
+  quota: {
+    message: "Rate limit or quota reached. Wait a minute and try again, or check your billing.",
+    action: 'retry',
+    transient: true,
+  },
+  safety: {
+    message: "The request was blocked by safety filters. Try a different photo or prompt.",
+    action: 'edit-prompt',
+    transient: false,
+  },
+  'no-image': {
+    message: "The model answered without an image. Try again or rephrase the prompt.",
+    action: 'retry',
+    transient: false,
+  },
+  network: {
+    message: "Could not reach the image service. Check your connection and try again.",
+    action: 'retry',
+    transient: true,
+  },
+  timeout: {
+    message: "The image service took too long to respond. Please try again.",
+    action: 'retry',
+    transient: true,
+  },
+  cancelled: {
+    message: "Cancelled",
+    action: 'none',
+    transient: false,
+  },
+  budget: {
+    message: "Budget cap reached. Raise or remove the cap in Usage to keep generating.",
+    action: 'open-usage',
+    transient: false,
+  },
+  unknown: {
+    message: "Something went wrong. Please try again.",
+    action: 'retry',
+    transient: false,
+  },
+};
+
+// A classified generation failure with a message meant for the user
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  action: RecoveryAction;
+  transient: boolean;
+  // Provider's original error, kept for the console
+  cause?: unknown;
+
+  constructor(code: GenerationErrorCode, cause?: unknown, message?: string) {
+    const details = ERROR_DETAILS[code];
+    super(message ?? details.message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.action = details.action;
+    this.transient = details.transient;
+    this.cause = cause;
+  }
+}
+
+export const toGenerationError = (error: unknown): GenerationError =>
+  error instanceof GenerationError ? error : new GenerationError('unknown', error);
+
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof GenerationError && error.code === 'cancelled';
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationError('cancelled');
+};
+
+// Resolves after `ms`, or rejects as cancelled when the signal aborts first
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationError('cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+};
+
+// Runs `task`, retrying transient GenerationErrors with exponential backoff
+// (1s, 2s, 4s, ... with jitter). Other errors are thrown at once.
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      const error = toGenerationError(e);
+      if (!error.transient || attempt >= options.retries) throw error;
+      const delayMs = Math.round(options.baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5));
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
@@ -0,0 +1,48 @@
+import { ExpansionProvider, ExpansionResponse, FormatId, ImageSize, PaddedCanvas } from "../types";
+import { geminiProvider } from "./geminiService";
+import { getFormat } from "./formatService";
+import { nativeImageSize } from "./upscaleService";
+
+// One provider request for a format, the step of an expansion that touches
+// no pixels. expandImage post-processes its result through a PixelCodec.
+
+export const DEFAULT_PROMPT = "Expand this image naturally.";
+
+export interface CoreSource {
+  // Base64 payload sent to the model
+  base64: string;
+  mimeType?: string;
+}
+
+export interface CoreRequestOptions {
+  provider?: ExpansionProvider;
+  prompt?: string;
+  resolution?: ImageSize;
+  canvas?: PaddedCanvas;
+  signal?: AbortSignal;
+}
+
+export const requestExpansion = (
+  source: CoreSource,
+  ratio: FormatId,
+  options: CoreRequestOptions = {}
+): Promise<ExpansionResponse> => {
+  const format = getFormat(ratio);
+  const provider = options.provider ?? geminiProvider;
+  return provider.expand({
+    imageBase64: source.base64,
+    mimeType: source.mimeType ?? 'image/png',
+    targetRatio: format.modelRatio,
+    exactRatio: format.ratio,
+    imageSize: nativeImageSize(options.resolution ?? '1K', provider.maxImageSize),
+    prompt: options.prompt?.trim() || DEFAULT_PROMPT,
+    canvas: options.canvas,
+    signal: options.signal,
+  });
+};
+
+// 'data:image/png;base64,...' -> its MIME type and base64 payload
+export const parseDataUrl = (dataUrl: string): { mimeType: string; base64: string } => {
+  const [header, base64] = dataUrl.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] ?? 'image/png', base64 };
+};
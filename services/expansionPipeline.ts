@@ -0,0 +1,198 @@
+import {
+  ExpansionMetadata, ExpansionProvider, FormatId, GeneratedImage, ImageSize, PaddedCanvas, Placement, PlacementLayout,
+  RatioSize
+} from "../types";
+import { geminiProvider } from "./geminiService";
+import { locateOriginalInImage, restoreOriginal } from "./compositingService";
+import { PixelBuffer, PixelCodec, canvasCodec, canvasSize, loadImage, renderOutpaintCanvas } from "./imageService";
+import { clampLayout, layoutToRect } from "./placementService";
+import { DEFAULT_QUALITY_SETTINGS, scoreOriginalRegion } from "./qualityService";
+import { throwIfCancelled } from "./errorService";
+import { computeExactSize, cropToFrame, fitToExactRatio, parseRatio } from "./ratioService";
+import { getFormat } from "./formatService";
+import { needsUpscale, resolutionLongSide, upscaleImage, upscaledSize } from "./upscaleService";
+import { DEFAULT_PROMPT, requestExpansion } from "./expansionCore";
+
+export interface SourceImage {
+  // Object or data URL of the uploaded photo, used for compositing
+  url: string;
+  // Base64 payload sent to the model
+  base64: string;
+  mimeType?: string;
+}
+
+export interface ExpandOptions {
+  // Backend doing the outpainting, Gemini unless set
+  provider?: ExpansionProvider;
+  prompt?: string;
+  // Recorded on the result when the prompt came from a preset
+  presetName?: string;
+  // Where the user pinned the original. Without it the model decides. The
+  // padded canvas is drawn in the browser, so only the app sets this.
+  layout?: PlacementLayout | null;
+  // Minimum SSIM of the original region before an output is trusted
+  qualityThreshold?: number;
+  // Total generation attempts while the output keeps drifting
+  maxAttempts?: number;
+  onAttempt?: (attempt: number, maxAttempts: number) => void;
+  // Awaited before every model request, e.g. a rate limiter
+  throttle?: () => Promise<void>;
+  // Cancels the generation between and during model requests
+  signal?: AbortSignal;
+  // Output resolution, 1K unless set. Above the provider's limit the result is upscaled.
+  resolution?: ImageSize;
+  // Decodes and encodes the pixels of the post-processing stages, a canvas
+  // unless set. The CLI passes a Node codec.
+  codec?: PixelCodec;
+}
+
+// Longer side of the padded canvas sent with an explicit layout, unless the
+// provider sets its own
+const CANVAS_MAX_SIDE = 1024;
+
+interface Attempt {
+  image: PixelBuffer;
+  metadata: ExpansionMetadata;
+  placement: Placement | null;
+  // Exact-ratio frame inside the output, when a layout was given
+  frame: Placement | null;
+  score: number;
+}
+
+interface CanvasPlan {
+  canvas: PaddedCanvas;
+  frame: Placement;
+}
+
+// Lays the original out on a canvas of the provider's ratio. The exact
+// target frame is centred in it and the original placed inside that frame.
+const planCanvas = async (
+  source: SourceImage,
+  ratio: FormatId,
+  layout: PlacementLayout,
+  provider: ExpansionProvider
+): Promise<CanvasPlan> => {
+  const format = getFormat(ratio);
+  const target = format.ratio;
+  const size = canvasSize(provider.supportsAnyRatio ? target : parseRatio(format.modelRatio), provider.maxCanvasSide ?? CANVAS_MAX_SIDE);
+  const frameSize = computeExactSize(size.width, size.height, target);
+  const frame = {
+    x: Math.floor((size.width - frameSize.width) / 2),
+    y: Math.floor((size.height - frameSize.height) / 2),
+    ...frameSize,
+  };
+
+  const img = await loadImage(source.url);
+  const fitted = clampLayout(layout, frame.width / frame.height, img.naturalWidth / img.naturalHeight);
+  const inner = layoutToRect(fitted, frame.width, frame.height, img.naturalWidth, img.naturalHeight);
+  const placement = { ...inner, x: frame.x + inner.x, y: frame.y + inner.y };
+
+  return { canvas: renderOutpaintCanvas(img, size.width, size.height, placement), frame };
+};
+
+const scaleRect = (rect: Placement, sx: number, sy: number): Placement => ({
+  x: Math.round(rect.x * sx),
+  y: Math.round(rect.y * sy),
+  width: Math.round(rect.width * sx),
+  height: Math.round(rect.height * sy),
+});
+
+// Generation followed by the post-processing stages:
+// 1. score the original region and regenerate while the model drifted
+// 2. paste the original pixels back over the region the model should have kept
+// 3. trim the model's closest supported ratio to the exact target ratio
+// 4. upscale when the provider cannot generate the requested resolution
+export const expandImage = async (
+  source: SourceImage,
+  ratio: FormatId,
+  options: ExpandOptions = {}
+): Promise<GeneratedImage> => {
+  const format = getFormat(ratio);
+  const resolution = options.resolution ?? '1K';
+  const threshold = options.qualityThreshold ?? DEFAULT_QUALITY_SETTINGS.threshold;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_QUALITY_SETTINGS.maxAttempts);
+  const provider = options.provider ?? geminiProvider;
+  const prompt = options.prompt?.trim() || DEFAULT_PROMPT;
+  const codec = options.codec ?? canvasCodec;
+  const plan = options.layout ? await planCanvas(source, ratio, options.layout, provider) : null;
+  const original = await codec.decode(source.url);
+
+  let best: Attempt | null = null;
+  let attempts = 0;
+  while (attempts < maxAttempts) {
+    throwIfCancelled(options.signal);
+    attempts++;
+    options.onAttempt?.(attempts, maxAttempts);
+    await options.throttle?.();
+    throwIfCancelled(options.signal);
+
+    const response = await requestExpansion(source, ratio, {
+      provider,
+      prompt,
+      resolution,
+      canvas: plan?.canvas,
+      signal: options.signal,
+    });
+
+    // Providers may return several candidates; each competes for best
+    for (const url of response.images) {
+      const image = await codec.decode(url);
+      let placement: Placement | null;
+      let frame: Placement | null = null;
+      if (plan) {
+        // The output may come back at a different resolution than the canvas
+        const sx = image.width / plan.canvas.width;
+        const sy = image.height / plan.canvas.height;
+        placement = scaleRect(plan.canvas.placement, sx, sy);
+        frame = scaleRect(plan.frame, sx, sy);
+      } else {
+        placement = await locateOriginalInImage(image, original, codec);
+      }
+      // The search may move the placement by a pixel or two; restore at the best match
+      const { score, placement: matched } = await scoreOriginalRegion(image, original, placement, codec);
+      placement = matched;
+
+      if (!best || score > best.score) {
+        best = { image, metadata: response.metadata, placement, frame, score };
+      }
+    }
+    if (best && best.score >= threshold) break;
+  }
+
+  if (!best) {
+    throw new Error("The provider returned no images.");
+  }
+  const chosen = best;
+  throwIfCancelled(options.signal);
+  const restored = await restoreOriginal(chosen.image, original, codec, { placement: chosen.placement }) ?? undefined;
+  let { image, placement } = chosen.frame
+    ? cropToFrame(chosen.image, ratio, chosen.frame, restored)
+    : fitToExactRatio(chosen.image, ratio, restored);
+
+  let upscaledFrom: RatioSize | undefined;
+  if (needsUpscale(image, resolution, provider.maxImageSize)) {
+    const target = upscaledSize(image, resolutionLongSide(resolution));
+    const exact = computeExactSize(target.width, target.height, format.ratio);
+    const upscaled = await upscaleImage(image, exact, codec, placement && { image: original, placement }, options.signal);
+    upscaledFrom = { width: image.width, height: image.height };
+    ({ image, placement } = upscaled);
+  }
+
+  return {
+    url: await codec.encode(image),
+    ratio,
+    width: image.width,
+    height: image.height,
+    placement,
+    upscaledFrom,
+    metadata: chosen.metadata,
+    prompt,
+    presetName: options.presetName,
+    quality: {
+      score: chosen.score,
+      threshold,
+      drifted: chosen.score < threshold,
+      attempts,
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import { FormatId, RatioSize } from "../types";
+import { canvasToBlob, createCanvas, loadImage } from "./imageService";
+import { formatRatio } from "./ratioService";
+import { getFormat } from "./formatService";
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+// 'platform' resizes to the format's recommended upload size, 'original' keeps
+// the output size and 'auto' picks the larger of the two
+export type ExportSize = 'auto' | 'platform' | 'original';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // 0-1, ignored for PNG
+  quality: number;
+  size: ExportSize;
+  filenameTemplate: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'jpeg',
+  quality: 0.9,
+  size: 'auto',
+  filenameTemplate: '{original}-{ratio}-{variant}',
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; mimeType: string; extension: string }[] = [
+  { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+];
+
+export const FILENAME_TOKENS = ['original', 'ratio', 'format', 'variant', 'width', 'height', 'date'] as const;
+
+export type FilenameValues = Record<typeof FILENAME_TOKENS[number], string>;
+
+export interface ExportedImage {
+  blob: Blob;
+  // The browser may fall back to PNG when it cannot encode the requested format
+  format: ExportFormat;
+  width: number;
+  height: number;
+}
+
+// With 'auto', results generated or upscaled to 2K or 4K keep their size
+// instead of being shrunk to the platform's
+export const exportSize = (ratio: FormatId, source: RatioSize, size: ExportSize): RatioSize => {
+  const platform = getFormat(ratio).size;
+  if (size === 'original') return source;
+  if (size === 'platform') return platform;
+  return Math.max(source.width, source.height) > Math.max(platform.width, platform.height) ? source : platform;
+};
+
+// Re-encodes through an sRGB canvas. Drawing to a canvas drops every
+// metadata block of the source (EXIF, XMP, ICC), so nothing is carried over.
+export const renderExport = async (
+  url: string,
+  ratio: FormatId,
+  options: ExportOptions
+): Promise<ExportedImage> => {
+  const img = await loadImage(url);
+  const { width, height } = exportSize(ratio, { width: img.naturalWidth, height: img.naturalHeight }, options.size);
+  const { canvas, ctx } = createCanvas(width, height, { colorSpace: 'srgb', alpha: options.format !== 'jpeg' });
+
+  if (options.format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const requested = EXPORT_FORMATS.find((format) => format.id === options.format)!;
+  const blob = await canvasToBlob(canvas, requested.mimeType, options.format === 'png' ? undefined : options.quality);
+  const actual = EXPORT_FORMATS.find((format) => format.mimeType === blob.type) ?? requested;
+  return { blob, format: actual.id, width, height };
+};
+
+// Fills {token}s of the template and appends the extension. Unknown tokens
+// are left as typed so mistakes are visible in the preview.
+export const formatFilename = (template: string, values: FilenameValues, format: ExportFormat): string => {
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => (token in values ? values[token as keyof FilenameValues] : match))
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const extension = EXPORT_FORMATS.find((f) => f.id === format)!.extension;
+  return `${name || 'insta-expand'}.${extension}`;
+};
+
+export const filenameValues = (
+  original: string,
+  ratio: FormatId,
+  variant: number,
+  size: RatioSize
+): FilenameValues => {
+  const format = getFormat(ratio);
+  return {
+    original,
+    ratio: formatRatio(format.ratio).replace(':', 'x'),
+    format: format.id,
+    variant: String(variant),
+    width: String(size.width),
+    height: String(size.height),
+    date: new Date().toISOString().slice(0, 10),
+  };
+};
+
+export const canShareFiles = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.canShare === 'function';
+
+// Opens the native share sheet. Resolves false when files cannot be shared here.
+export const shareImage = async (blob: Blob, filename: string): Promise<boolean> => {
+  const file = new File([blob], filename, { type: blob.type });
+  if (!canShareFiles() || !navigator.canShare({ files: [file] })) return false;
+  try {
+    await navigator.share({ files: [file], title: filename });
+  } catch (e) {
+    // Closing the share sheet is not an error
+    if (e instanceof DOMException && e.name === 'AbortError') return true;
+    throw e;
+  }
+  return true;
+};
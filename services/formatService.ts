@@ -0,0 +1,199 @@
+import { AspectRatio, FormatId, FormatPreset, RatioSize } from "../types";
+
+export const INSTAGRAM_SQUARE: FormatId = 'instagram-square';
+export const INSTAGRAM_PORTRAIT: FormatId = 'instagram-portrait';
+export const INSTAGRAM_STORY: FormatId = 'instagram-story';
+
+// Every platform format the app offers, in display order. Sizes are the
+// platforms' recommended upload sizes; the model generates `modelRatio` and
+// the result is trimmed to `ratio` afterwards.
+export const FORMATS: FormatPreset[] = [
+  {
+    id: INSTAGRAM_SQUARE,
+    platform: 'Instagram',
+    label: 'Square',
+    description: 'Post',
+    ratio: { width: 1, height: 1 },
+    size: { width: 1080, height: 1080 },
+    modelRatio: AspectRatio.SQUARE,
+  },
+  {
+    id: INSTAGRAM_PORTRAIT,
+    platform: 'Instagram',
+    label: 'Portrait',
+    description: 'Feed',
+    ratio: { width: 4, height: 5 },
+    size: { width: 1080, height: 1350 },
+    modelRatio: AspectRatio.PORTRAIT,
+  },
+  {
+    id: INSTAGRAM_STORY,
+    platform: 'Instagram',
+    label: 'Story',
+    description: 'Reels',
+    ratio: { width: 9, height: 16 },
+    size: { width: 1080, height: 1920 },
+    modelRatio: AspectRatio.STORY,
+  },
+  {
+    id: 'tiktok-video',
+    platform: 'TikTok',
+    label: 'Video',
+    description: 'Cover & photo mode',
+    ratio: { width: 9, height: 16 },
+    size: { width: 1080, height: 1920 },
+    modelRatio: AspectRatio.STORY,
+  },
+  {
+    id: 'pinterest-pin',
+    platform: 'Pinterest',
+    label: 'Pin',
+    description: 'Standard pin',
+    ratio: { width: 2, height: 3 },
+    size: { width: 1000, height: 1500 },
+    modelRatio: AspectRatio.TALL,
+  },
+  {
+    id: 'youtube-thumbnail',
+    platform: 'YouTube',
+    label: 'Thumbnail',
+    description: 'Video thumbnail',
+    ratio: { width: 16, height: 9 },
+    size: { width: 1280, height: 720 },
+    modelRatio: AspectRatio.LANDSCAPE,
+  },
+  {
+    id: 'linkedin-landscape',
+    platform: 'LinkedIn',
+    label: 'Landscape',
+    description: 'Shared image',
+    ratio: { width: 191, height: 100 },
+    size: { width: 1200, height: 628 },
+    modelRatio: AspectRatio.LANDSCAPE,
+  },
+  {
+    id: 'x-post',
+    platform: 'X',
+    label: 'Post',
+    description: 'In-stream image',
+    ratio: { width: 16, height: 9 },
+    size: { width: 1600, height: 900 },
+    modelRatio: AspectRatio.LANDSCAPE,
+  },
+  {
+    id: 'x-header',
+    platform: 'X',
+    label: 'Header',
+    description: 'Profile banner',
+    ratio: { width: 3, height: 1 },
+    size: { width: 1500, height: 500 },
+    modelRatio: AspectRatio.ULTRAWIDE,
+  },
+];
+
+// Formats produced together by "Generate all formats"
+export const INSTAGRAM_FORMATS: FormatId[] = [INSTAGRAM_SQUARE, INSTAGRAM_PORTRAIT, INSTAGRAM_STORY];
+
+// Before the registry, results were keyed by the model ratio
+const LEGACY_FORMAT_IDS = new Map<string, FormatId>([
+  ['1:1', INSTAGRAM_SQUARE],
+  ['3:4', INSTAGRAM_PORTRAIT],
+  ['9:16', INSTAGRAM_STORY],
+]);
+
+const MODEL_RATIOS: AspectRatio[] = [
+  AspectRatio.SQUARE,
+  AspectRatio.PORTRAIT,
+  AspectRatio.STORY,
+  AspectRatio.TALL,
+  AspectRatio.WIDE,
+  AspectRatio.CLASSIC,
+  AspectRatio.LANDSCAPE,
+  AspectRatio.ULTRAWIDE,
+];
+
+// Custom ratios must stay within what outpainting can reasonably reach
+const MIN_CUSTOM_ASPECT = 1 / 4;
+const MAX_CUSTOM_ASPECT = 4;
+// Longer side of the export size of a custom format
+const CUSTOM_LONG_SIDE = 2048;
+const CUSTOM_PREFIX = 'custom-';
+
+export const isCustomFormat = (id: FormatId): boolean => id.startsWith(CUSTOM_PREFIX);
+
+// The supported ratio closest to `ratio`, compared on a log scale so 2:1 and 1:2
+// are equally far from 1:1
+export const nearestModelRatio = (ratio: RatioSize): AspectRatio => {
+  const target = Math.log(ratio.width / ratio.height);
+  let best = AspectRatio.SQUARE;
+  let bestDistance = Infinity;
+  for (const candidate of MODEL_RATIOS) {
+    const [w, h] = candidate.split(':').map(Number);
+    const distance = Math.abs(Math.log(w / h) - target);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Accepts "5:2", "5x2", "1.91:1" or a single number like "1.91".
+// Returns null for anything that is not a usable ratio.
+export const parseRatioInput = (input: string): RatioSize | null => {
+  const parts = input.trim().split(/\s*[:x×/]\s*/i);
+  if (parts.length > 2 || parts[0] === '') return null;
+  const width = Number(parts[0]);
+  const height = parts.length === 2 ? Number(parts[1]) : 1;
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) return null;
+  const aspect = width / height;
+  if (aspect < MIN_CUSTOM_ASPECT || aspect > MAX_CUSTOM_ASPECT) return null;
+  return { width, height };
+};
+
+// Decimal ratios are scaled to whole numbers, so 1.91:1 becomes 191:100
+const toWholeRatio = (ratio: RatioSize): RatioSize => {
+  let scale = 1;
+  while (scale < 1000 && (!Number.isInteger(ratio.width * scale) || !Number.isInteger(ratio.height * scale))) {
+    scale *= 10;
+  }
+  return { width: Math.round(ratio.width * scale), height: Math.round(ratio.height * scale) };
+};
+
+export const customFormat = (input: RatioSize): FormatPreset => {
+  const ratio = toWholeRatio(input);
+  const aspect = ratio.width / ratio.height;
+  return {
+    id: `${CUSTOM_PREFIX}${ratio.width}x${ratio.height}`,
+    platform: 'Custom',
+    label: 'Custom',
+    description: 'Custom ratio',
+    ratio,
+    size: aspect >= 1
+      ? { width: CUSTOM_LONG_SIDE, height: Math.round(CUSTOM_LONG_SIDE / aspect) }
+      : { width: Math.round(CUSTOM_LONG_SIDE * aspect), height: CUSTOM_LONG_SIDE },
+    modelRatio: nearestModelRatio(ratio),
+  };
+};
+
+export const getFormat = (id: FormatId): FormatPreset => {
+  const resolved = LEGACY_FORMAT_IDS.get(id) ?? id;
+  const preset = FORMATS.find((format) => format.id === resolved);
+  if (preset) return preset;
+  if (isCustomFormat(resolved)) {
+    const ratio = parseRatioInput(resolved.slice(CUSTOM_PREFIX.length));
+    if (ratio) return customFormat(ratio);
+  }
+  throw new Error(`Unknown format "${id}"`);
+};
+
+// Platforms in registry order with their formats
+export const formatsByPlatform = (): { platform: string; formats: FormatPreset[] }[] => {
+  const groups: { platform: string; formats: FormatPreset[] }[] = [];
+  for (const format of FORMATS) {
+    const group = groups.find((g) => g.platform === format.platform);
+    if (group) group.formats.push(format);
+    else groups.push({ platform: format.platform, formats: [format] });
+  }
+  return groups;
+};
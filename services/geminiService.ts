@@ -1,71 +1,301 @@
-import { GoogleGenAI } from "@google/genai";
-import { AspectRatio } from "../types";
-
-// Helper to convert Blob to Base64
-export const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      // Remove data url prefix (e.g., "data:image/jpeg;base64,")
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AspectRatio, ExpansionProvider, ImageSize, PaddedCanvas } from "../types";
+import { GenerationError, withRetry } from "./errorService";
+import { recordUsage } from "./usageService";
+
+export const GEMINI_MODEL = 'gemini-3-pro-image-preview';
+
+export interface GeminiModelOption {
+  id: string;
+  label: string;
+  // Largest native output; models without imageSize support generate at 1K
+  maxImageSize: ImageSize;
+}
+
+export const GEMINI_MODELS: GeminiModelOption[] = [
+  { id: GEMINI_MODEL, label: 'Gemini 3 Pro Image', maxImageSize: '4K' },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', maxImageSize: '1K' },
+];
+
+// 'aistudio' uses the key the AI Studio host injects, 'own' the one entered in settings
+export type GeminiKeySource = 'aistudio' | 'own';
+
+export interface GeminiConfig {
+  keySource: GeminiKeySource;
+  // Only kept in this browser's local storage, never in the build
+  apiKey: string;
+  model: string;
+  // Empty for Google's endpoint, otherwise e.g. a proxy in front of it
+  baseUrl: string;
+}
+
+export const DEFAULT_GEMINI_CONFIG: GeminiConfig = {
+  keySource: 'aistudio',
+  apiKey: '',
+  model: GEMINI_MODEL,
+  baseUrl: '',
+};
+
+// Timeout of the key check in settings
+const VALIDATE_TIMEOUT_MS = 15_000;
+
+// Image generation regularly takes 20-40s; give up well after that
+export const REQUEST_TIMEOUT_MS = 120_000;
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// Base64 without a data URL prefix; works in browsers and in Node
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, as spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> =>
+  bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+
+type Part = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+// Maps anything the SDK or fetch throws onto a GenerationError
+export const classifyGeminiError = (error: unknown, signal?: AbortSignal, timedOut: boolean = false): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if (timedOut) return new GenerationError('timeout', error);
+  if (signal?.aborted) return new GenerationError('cancelled', error);
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = error instanceof ApiError ? error.status : undefined;
+
+  // A 404 here means the selected key's project cannot use the model
+  if (status === 401 || status === 403 || message.includes("Requested entity was not found")
+    || /API key (not valid|expired)|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new GenerationError('invalid-key', error);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('quota', error);
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new GenerationError('safety', error);
+  }
+  if ((status !== undefined && status >= 500) || error instanceof TypeError || /network|Failed to fetch|fetch failed|UNAVAILABLE/i.test(message)) {
+    return new GenerationError('network', error);
+  }
+  return new GenerationError('unknown', error);
+};
+
+// Returns every image part of the response, or explains why there is none
+const extractImages = (response: GenerateContentResponse): string[] => {
+  if (response.promptFeedback?.blockReason) {
+    throw new GenerationError('safety', response.promptFeedback);
+  }
+
+  const candidate = response.candidates?.[0];
+  const images: string[] = [];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData) {
+      const base64EncodeString = part.inlineData.data;
+      images.push(`data:${part.inlineData.mimeType ?? 'image/png'};base64,${base64EncodeString}`);
+    }
+  }
+
+  if (images.length === 0) {
+    if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+      throw new GenerationError('safety', candidate.finishReason);
+    }
+    throw new GenerationError('no-image', candidate?.finishReason);
+  }
+  return images;
+};
+
+const findModel = (model: string): GeminiModelOption | undefined =>
+  GEMINI_MODELS.find((option) => option.id === model);
+
+const createClient = (config: GeminiConfig): GoogleGenAI => {
+  // The AI Studio host injects its selected key as process.env.API_KEY
+  const apiKey = config.keySource === 'own' ? config.apiKey.trim() : process.env.API_KEY;
+  if (!apiKey) throw new GenerationError('invalid-key');
+  return new GoogleGenAI({
+    apiKey,
+    httpOptions: config.baseUrl.trim() ? { baseUrl: config.baseUrl.trim() } : undefined,
   });
 };
 
-export const generateExpandedImage = async (
-  originalImageBase64: string,
+// Every answered request is billed, including ones without an image
+const recordResponseUsage = (response: GenerateContentResponse, model: string, imageSize: ImageSize, latencyMs: number) => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  recordUsage({
+    provider: 'gemini',
+    model,
+    imageSize,
+    inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+    outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+    images: parts.filter((part) => part.inlineData).length,
+    latencyMs: Math.round(latencyMs),
+  });
+};
+
+// A single request, aborted by the caller's signal or after REQUEST_TIMEOUT_MS
+const requestOnce = async (
+  config: GeminiConfig,
+  parts: Part[],
   targetRatio: AspectRatio,
-  promptDescription: string = "Expand this image naturally."
-): Promise<string> => {
+  imageSize: ImageSize,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  const started = performance.now();
+
   try {
-    // We strictly use process.env.API_KEY as per instructions.
-    // The key must be selected via window.aistudio for this model.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = createClient(config);
+    // Models without resolution options reject imageSize
+    const sized = findModel(config.model)?.maxImageSize !== '1K';
 
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [
-          {
-            text: `Perform an outpainting task to resize the image to aspect ratio ${targetRatio}. 
-            ${promptDescription} 
-            Critical instructions:
-            1. Keep the original central image absolutely unchanged and intact.
-            2. Only generate new content in the added empty space (borders).
-            3. The new background must seamlessly blend with the original lighting, textures, and style.
-            4. High photorealism.`,
-          },
-          {
-            inlineData: {
-              data: originalImageBase64,
-              mimeType: 'image/png', // Assuming PNG for generic handling.
-            },
-          },
-        ],
-      },
+      model: config.model,
+      contents: { parts },
       config: {
-        imageConfig: {
-          aspectRatio: targetRatio,
-          imageSize: "1K", 
-        },
+        abortSignal: controller.signal,
+        imageConfig: sized ? { aspectRatio: targetRatio, imageSize } : { aspectRatio: targetRatio },
       },
     });
 
-    // Extract image from response
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        const base64EncodeString = part.inlineData.data;
-        return `data:image/png;base64,${base64EncodeString}`;
-      }
-    }
+    recordResponseUsage(response, config.model, imageSize, performance.now() - started);
+    return extractImages(response);
+  } catch (error) {
+    throw classifyGeminiError(error, signal, timedOut);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
 
-    throw new Error("No image data found in response");
+// Retries rate limits, network errors and timeouts with exponential backoff
+const requestImages = async (
+  config: GeminiConfig,
+  parts: Part[],
+  targetRatio: AspectRatio,
+  imageSize: ImageSize,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  if (signal?.aborted) throw new GenerationError('cancelled');
+  try {
+    return await withRetry(() => requestOnce(config, parts, targetRatio, imageSize, signal), {
+      retries: 3,
+      baseDelayMs: 2000,
+      signal,
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(`Gemini request failed (${error.code}), retry ${attempt} in ${delayMs}ms`),
+    });
   } catch (error) {
     console.error("Gemini API Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const generateExpandedImage = async (
+  originalImageBase64: string,
+  targetRatio: AspectRatio,
+  promptDescription: string = "Expand this image naturally.",
+  mimeType: string = 'image/png',
+  signal?: AbortSignal,
+  imageSize: ImageSize = '1K',
+  config: GeminiConfig = DEFAULT_GEMINI_CONFIG
+): Promise<string[]> => {
+  return requestImages(config, [
+    {
+      text: `Perform an outpainting task to resize the image to aspect ratio ${targetRatio}. 
+      ${promptDescription} 
+      Critical instructions:
+      1. Keep the original central image absolutely unchanged and intact.
+      2. Only generate new content in the added empty space (borders).
+      3. The new background must seamlessly blend with the original lighting, textures, and style.
+      4. High photorealism.`,
+    },
+    {
+      inlineData: {
+        data: originalImageBase64,
+        mimeType,
+      },
+    },
+  ], targetRatio, imageSize, signal);
+};
+
+// Outpaints a canvas where the original is already placed, guided by a mask
+export const generateFromCanvas = async (
+  canvas: PaddedCanvas,
+  targetRatio: AspectRatio,
+  promptDescription: string = "Expand this image naturally.",
+  signal?: AbortSignal,
+  imageSize: ImageSize = '1K',
+  config: GeminiConfig = DEFAULT_GEMINI_CONFIG
+): Promise<string[]> => {
+  return requestImages(config, [
+    {
+      text: `Perform an outpainting task. The first image is the final canvas with the original photo already placed at its final position; the transparent area is empty. The second image is a mask: white marks the area to fill, black marks the original photo.
+      ${promptDescription}
+      Critical instructions:
+      1. Keep the black mask area absolutely unchanged and at exactly the same position and size.
+      2. Only generate new content in the white mask area.
+      3. The new content must seamlessly blend with the original lighting, textures, and style.
+      4. High photorealism.`,
+    },
+    { inlineData: { data: canvas.imageBase64, mimeType: 'image/png' } },
+    { inlineData: { data: canvas.maskBase64, mimeType: 'image/png' } },
+  ], targetRatio, imageSize, signal);
+};
+
+// Checks the key, endpoint and model with a model lookup, which is not billed
+export const validateGeminiConfig = async (config: GeminiConfig): Promise<void> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, VALIDATE_TIMEOUT_MS);
+  try {
+    await createClient(config).models.get({ model: config.model, config: { abortSignal: controller.signal } });
+  } catch (error) {
+    throw classifyGeminiError(error, undefined, timedOut);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const createGeminiProvider = (config: GeminiConfig): ExpansionProvider => {
+  const model = findModel(config.model);
+  return {
+    id: 'gemini',
+    label: model?.label ?? config.model,
+    supportsAnyRatio: false,
+    // Unknown model ids are assumed to support every resolution
+    maxImageSize: model?.maxImageSize ?? '4K',
+    expand: async ({ imageBase64, mimeType, targetRatio, prompt, canvas, signal, imageSize }) => {
+      const started = performance.now();
+      const images = canvas
+        ? await generateFromCanvas(canvas, targetRatio, prompt, signal, imageSize, config)
+        : await generateExpandedImage(imageBase64, targetRatio, prompt, mimeType, signal, imageSize, config);
+      return {
+        images,
+        metadata: { provider: 'gemini', model: config.model, latencyMs: Math.round(performance.now() - started) },
+      };
+    },
+  };
+};
+
+export const geminiProvider: ExpansionProvider = createGeminiProvider(DEFAULT_GEMINI_CONFIG);
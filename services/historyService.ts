@@ -0,0 +1,146 @@
+import { GeneratedImage, HistoryEntry, PlacementLayout } from "../types";
+import { dataUrlToBytes } from "./downloadService";
+import { createCanvas, loadImage } from "./imageService";
+
+const DB_NAME = 'instaexpand';
+const DB_VERSION = 1;
+const STORE = 'history';
+const THUMBNAIL_SIZE = 160;
+
+export interface HistoryPolicy {
+  // Oldest entries beyond this count are removed
+  maxEntries: number;
+  // Entries older than this are removed; 0 keeps them forever
+  maxAgeDays: number;
+}
+
+export const DEFAULT_HISTORY_POLICY: HistoryPolicy = {
+  maxEntries: 50,
+  maxAgeDays: 30,
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+  return new Blob([dataUrlToBytes(dataUrl)], { type: mimeType });
+};
+
+const createThumbnail = async (url: string): Promise<Blob> => {
+  const img = await loadImage(url);
+  const k = THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight);
+  const { canvas, ctx } = createCanvas(Math.round(img.naturalWidth * k), Math.round(img.naturalHeight * k));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return dataUrlToBlob(canvas.toDataURL('image/jpeg', 0.8));
+};
+
+export interface HistoryDraft {
+  // Set to replace an existing entry, e.g. after picking another variant
+  id?: string;
+  original: Blob;
+  results: GeneratedImage[];
+  layout: PlacementLayout | null;
+}
+
+// Builds an entry from finished results. Prompt and model come from the first result.
+export const createHistoryEntry = async ({ id, original, results, layout }: HistoryDraft): Promise<HistoryEntry> => {
+  const [first] = results;
+  return {
+    id: id ?? `history-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    createdAt: Date.now(),
+    original,
+    outputs: results.map((result) => ({
+      ratio: result.ratio,
+      image: dataUrlToBlob(result.url),
+      width: result.width,
+      height: result.height,
+      quality: result.quality,
+    })),
+    thumbnail: await createThumbnail(first.url),
+    prompt: first.prompt ?? '',
+    presetName: first.presetName,
+    provider: first.metadata?.provider ?? 'gemini',
+    model: first.metadata?.model ?? 'unknown',
+    layout,
+  };
+};
+
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore('readonly', (store) => store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', (store) => store.clear());
+};
+
+// Removes entries outside the policy. Returns how many were removed.
+export const applyHistoryPolicy = async (policy: HistoryPolicy): Promise<number> => {
+  const entries = await listHistory();
+  const cutoff = policy.maxAgeDays > 0 ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+  const expired = entries.filter((entry, index) => index >= policy.maxEntries || entry.createdAt < cutoff);
+  for (const entry of expired) {
+    await deleteHistoryEntry(entry.id);
+  }
+  return expired.length;
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry, policy: HistoryPolicy): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(entry));
+  await applyHistoryPolicy(policy);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
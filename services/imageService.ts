@@ -0,0 +1,193 @@
+import { PaddedCanvas, Placement, RatioSize } from "../types";
+
+// Canvas and pixel buffer helpers shared by the post-processing stages.
+
+// Structural subset of ImageData so the pure helpers can run on plain buffers
+export type PixelBuffer = Pick<ImageData, 'width' | 'height' | 'data'>;
+
+// Turns images into pixel buffers and back. The post-processing stages only
+// work on buffers, so they run wherever a codec is available, not just on a
+// canvas.
+export interface PixelCodec {
+  decode: (url: string) => Promise<PixelBuffer>;
+  // A data URL, PNG unless another type is given
+  encode: (image: PixelBuffer, mimeType?: string, quality?: number) => Promise<string>;
+  resize: (image: PixelBuffer, width: number, height: number) => Promise<PixelBuffer>;
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number, settings?: CanvasRenderingContext2DSettings) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', settings);
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  return { canvas, ctx };
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+};
+
+// Draws an image at the given size and returns its pixels
+export const getImageData = (
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): ImageData => {
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const createPixels = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+// Copy of the `rect` area of `source`; parts outside it stay transparent
+export const cropPixels = (source: PixelBuffer, rect: Placement): PixelBuffer => {
+  const out = createPixels(rect.width, rect.height);
+  const x0 = Math.max(0, rect.x);
+  const x1 = Math.min(source.width, rect.x + rect.width);
+  if (x1 <= x0) return out;
+  for (let y = Math.max(0, rect.y); y < Math.min(source.height, rect.y + rect.height); y++) {
+    const row = source.data.subarray((y * source.width + x0) * 4, (y * source.width + x1) * 4);
+    out.data.set(row, ((y - rect.y) * rect.width + x0 - rect.x) * 4);
+  }
+  return out;
+};
+
+const toImageData = (image: PixelBuffer): ImageData =>
+  image instanceof ImageData ? image : new ImageData(image.data, image.width, image.height);
+
+const pixelsToCanvas = (image: PixelBuffer) => {
+  const { canvas, ctx } = createCanvas(image.width, image.height);
+  ctx.putImageData(toImageData(image), 0, 0);
+  return canvas;
+};
+
+export const canvasCodec: PixelCodec = {
+  decode: async (url) => {
+    const img = await loadImage(url);
+    return getImageData(img, img.naturalWidth, img.naturalHeight);
+  },
+  encode: async (image, mimeType = 'image/png', quality) => pixelsToCanvas(image).toDataURL(mimeType, quality),
+  resize: async (image, width, height) => {
+    const { ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(pixelsToCanvas(image), 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  },
+};
+
+// Area-averaged luma plane of a buffer, resampled to width x height
+export const downsampleLuma = (source: PixelBuffer, width: number, height: number): Float32Array => {
+  const out = new Float32Array(width * height);
+  const counts = new Uint32Array(width * height);
+  const sx = width / source.width;
+  const sy = height / source.height;
+
+  for (let y = 0; y < source.height; y++) {
+    const ty = Math.min(height - 1, Math.floor(y * sy));
+    for (let x = 0; x < source.width; x++) {
+      const tx = Math.min(width - 1, Math.floor(x * sx));
+      out[ty * width + tx] += luminance(source.data, (y * source.width + x) * 4);
+      counts[ty * width + tx]++;
+    }
+  }
+  for (let ty = 0; ty < height; ty++) {
+    for (let tx = 0; tx < width; tx++) {
+      const i = ty * width + tx;
+      if (counts[i] > 0) {
+        out[i] /= counts[i];
+      } else {
+        // Upsampling leaves gaps: fall back to the nearest source pixel
+        const x = Math.min(source.width - 1, Math.floor(tx / sx));
+        const y = Math.min(source.height - 1, Math.floor(ty / sy));
+        out[i] = luminance(source.data, (y * source.width + x) * 4);
+      }
+    }
+  }
+  return out;
+};
+
+// Rec. 601 luma of the pixel at byte offset i
+export const luminance = (data: ArrayLike<number>, i: number): number => {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+};
+
+export const toDataUrl = (base64: string, mimeType: string) => `data:${mimeType};base64,${base64}`;
+
+export const stripDataUrl = (dataUrl: string) => dataUrl.split(',')[1];
+
+// Size with the given ratio whose longer side is `maxSide`, both sides
+// rounded to a multiple of `step` (diffusion models usually need 8)
+export const canvasSize = (ratio: RatioSize, maxSide: number, step: number = 8): RatioSize => {
+  const k = maxSide / Math.max(ratio.width, ratio.height);
+  return {
+    width: Math.max(step, Math.round((ratio.width * k) / step) * step),
+    height: Math.max(step, Math.round((ratio.height * k) / step) * step),
+  };
+};
+
+// Draws the image at `placement` on a transparent canvas and builds the
+// matching mask of the area to fill
+export const renderOutpaintCanvas = (
+  img: HTMLImageElement,
+  width: number,
+  height: number,
+  placement: Placement
+): PaddedCanvas => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, placement.x, placement.y, placement.width, placement.height);
+
+  const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(placement.x, placement.y, placement.width, placement.height);
+
+  return {
+    imageBase64: stripDataUrl(canvas.toDataURL('image/png')),
+    maskBase64: stripDataUrl(maskCanvas.toDataURL('image/png')),
+    width,
+    height,
+    placement,
+  };
+};
+
+// Centres the image inside a canvas of the target ratio
+export const buildOutpaintCanvas = async (
+  src: string,
+  ratio: RatioSize,
+  maxSide: number,
+  step: number = 8
+): Promise<PaddedCanvas> => {
+  const img = await loadImage(src);
+  const { width, height } = canvasSize(ratio, maxSide, step);
+
+  const fit = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+  const pw = Math.round(img.naturalWidth * fit);
+  const ph = Math.round(img.naturalHeight * fit);
+  const placement = { x: Math.round((width - pw) / 2), y: Math.round((height - ph) / 2), width: pw, height: ph };
+
+  return renderOutpaintCanvas(img, width, height, placement);
+};
@@ -0,0 +1,308 @@
+import { blobToBase64, bytesToBase64 } from "./geminiService";
+import { PixelBuffer, PixelCodec, canvasToBlob, createCanvas, createPixels, stripDataUrl, toDataUrl } from "./imageService";
+
+// Longer side uploads are scaled down to before encoding. It covers the
+// original's share of a 2K or 4K result; beyond it, inputs mostly cost
+// upload time and tokens.
+export const MAX_INPUT_SIDE = 2048;
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'heic' | 'avif';
+
+// Formats the model accepts as-is
+const PASSTHROUGH_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  avif: 'image/avif',
+};
+
+export type ImageInputErrorCode = 'not-an-image' | 'corrupt' | 'unsupported' | 'empty';
+
+// Raised for uploads that cannot be used, with a message meant for the user
+export class ImageInputError extends Error {
+  code: ImageInputErrorCode;
+
+  constructor(code: ImageInputErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageInputError';
+    this.code = code;
+  }
+}
+
+export interface NormalizedImage {
+  // Object URL of the normalized image, for previews and compositing
+  url: string;
+  blob: Blob;
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  sourceFormat: ImageFormat;
+  // EXIF orientation of the source (1 = upright)
+  orientation: number;
+  resized: boolean;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Detects the real format from the file's magic bytes, ignoring its name and
+// the browser-reported MIME type
+export const detectFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes.length < 12) return null;
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+  return null;
+};
+
+// Reads the EXIF orientation tag (0x0112) from a JPEG. Returns 1 when absent.
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && ascii(bytes, offset + 4, 4) === 'Exif') {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    // Start of scan: no more metadata segments
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + size;
+  }
+  return 1;
+};
+
+// Pixel size stored in a JPEG's start-of-frame segment, before any rotation
+const readJpegSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 9 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    // SOF0..SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker)) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+};
+
+// Draws `source` upright for the given EXIF orientation
+const drawOriented = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  orientation: number,
+  width: number,
+  height: number
+) => {
+  // Canvas size is already swapped for orientations 5-8
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, height); break;
+  }
+  const swapped = orientation >= 5;
+  ctx.drawImage(source, 0, 0, swapped ? height : width, swapped ? width : height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+// Copy of `image` turned upright for the given EXIF orientation
+export const orientPixels = (image: PixelBuffer, orientation: number): PixelBuffer => {
+  if (orientation < 2 || orientation > 8) return image;
+  const { width: w, height: h } = image;
+  const swapped = orientation >= 5;
+  const out = createPixels(swapped ? h : w, swapped ? w : h);
+  for (let y = 0; y < out.height; y++) {
+    for (let x = 0; x < out.width; x++) {
+      let sx = x, sy = y;
+      switch (orientation) {
+        case 2: sx = w - 1 - x; break;
+        case 3: sx = w - 1 - x; sy = h - 1 - y; break;
+        case 4: sy = h - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = h - 1 - x; break;
+        case 7: sx = w - 1 - y; sy = h - 1 - x; break;
+        case 8: sx = w - 1 - y; sy = x; break;
+      }
+      const i = (sy * w + sx) * 4;
+      out.data.set(image.data.subarray(i, i + 4), (y * out.width + x) * 4);
+    }
+  }
+  return out;
+};
+
+const decodeHeic = async (file: Blob): Promise<ImageBitmap> => {
+  try {
+    // Only loaded for HEIC uploads: the decoder is large
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    return await createImageBitmap(Array.isArray(converted) ? converted[0] : converted);
+  } catch (e) {
+    console.error("HEIC conversion failed", e);
+    throw new ImageInputError('corrupt', "This HEIC photo could not be converted. Try exporting it as JPEG first.");
+  }
+};
+
+const decode = async (file: Blob, format: ImageFormat): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    // Only Safari decodes HEIC natively
+    if (format === 'heic') return decodeHeic(file);
+    throw new ImageInputError('corrupt', "This image appears to be damaged and could not be read.");
+  }
+};
+
+// Turns any upload into something the model can take: detects the real
+// format, converts formats it does not accept, bakes in EXIF orientation and
+// downscales very large photos. Unusable files raise an ImageInputError.
+export const normalizeImage = async (file: Blob, maxSide: number = MAX_INPUT_SIDE): Promise<NormalizedImage> => {
+  if (file.size === 0) {
+    throw new ImageInputError('empty', "This file is empty.");
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectFormat(bytes);
+  if (!format) {
+    throw new ImageInputError(
+      file.type.startsWith('image/') ? 'unsupported' : 'not-an-image',
+      file.type.startsWith('image/')
+        ? "This image format is not supported. Please use JPEG, PNG, WebP or HEIC."
+        : "This file is not an image. Please choose a photo."
+    );
+  }
+
+  const orientation = format === 'jpeg' ? readExifOrientation(bytes) : 1;
+  const bitmap = await decode(file, format);
+
+  // Some engines ignore imageOrientation; detect that from the stored size
+  let pending = 1;
+  if (orientation >= 5) {
+    const stored = readJpegSize(bytes);
+    if (stored && stored.width === bitmap.width && stored.height === bitmap.height && stored.width !== stored.height) {
+      pending = orientation;
+    }
+  }
+  const uprightW = pending >= 5 ? bitmap.height : bitmap.width;
+  const uprightH = pending >= 5 ? bitmap.width : bitmap.height;
+  const scale = Math.min(1, maxSide / Math.max(uprightW, uprightH));
+  const resized = scale < 1;
+
+  if (!resized && pending === 1 && orientation === 1 && PASSTHROUGH_FORMATS.includes(format)) {
+    bitmap.close();
+    return {
+      url: URL.createObjectURL(file),
+      blob: file,
+      base64: await blobToBase64(file),
+      mimeType: MIME_TYPES[format],
+      width: uprightW,
+      height: uprightH,
+      sourceFormat: format,
+      orientation,
+      resized,
+    };
+  }
+
+  const width = Math.round(uprightW * scale);
+  const height = Math.round(uprightH * scale);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  drawOriented(ctx, bitmap, pending, width, height);
+  bitmap.close();
+
+  // Photos stay JPEG; everything else goes to PNG to keep transparency
+  const photo = format === 'jpeg' || format === 'heic';
+  const blob = await canvasToBlob(canvas, photo ? 'image/jpeg' : 'image/png', photo ? 0.92 : undefined);
+
+  return {
+    url: URL.createObjectURL(blob),
+    blob,
+    base64: await blobToBase64(blob),
+    mimeType: blob.type,
+    width,
+    height,
+    sourceFormat: format,
+    orientation,
+    resized,
+  };
+};
+
+// normalizeImage for callers without a browser, e.g. the CLI: the same
+// checks, orientation and downscale on raw file bytes, decoded by `codec`.
+// HEIC needs the browser's converter and is refused.
+export const normalizeImageBytes = async (
+  bytes: Uint8Array,
+  codec: PixelCodec,
+  maxSide: number = MAX_INPUT_SIDE
+): Promise<Omit<NormalizedImage, 'blob'>> => {
+  if (bytes.length === 0) {
+    throw new ImageInputError('empty', "This file is empty.");
+  }
+  const format = detectFormat(bytes);
+  if (!format) {
+    throw new ImageInputError('not-an-image', "This file is not an image. Please choose a photo.");
+  }
+
+  const url = toDataUrl(bytesToBase64(bytes), MIME_TYPES[format]);
+  let decoded: PixelBuffer;
+  try {
+    decoded = await codec.decode(url);
+  } catch {
+    throw PASSTHROUGH_FORMATS.includes(format)
+      ? new ImageInputError('corrupt', "This image appears to be damaged and could not be read.")
+      : new ImageInputError('unsupported', "This image format is not supported here. Please use JPEG, PNG or WebP.");
+  }
+
+  const orientation = format === 'jpeg' ? readExifOrientation(bytes) : 1;
+  const upright = orientPixels(decoded, orientation);
+  const scale = Math.min(1, maxSide / Math.max(upright.width, upright.height));
+  const resized = scale < 1;
+  const base = { sourceFormat: format, orientation, resized };
+
+  if (!resized && orientation === 1 && PASSTHROUGH_FORMATS.includes(format)) {
+    return { ...base, url, base64: stripDataUrl(url), mimeType: MIME_TYPES[format], width: upright.width, height: upright.height };
+  }
+
+  const image = resized
+    ? await codec.resize(upright, Math.round(upright.width * scale), Math.round(upright.height * scale))
+    : upright;
+  // Photos stay JPEG; everything else goes to PNG to keep transparency
+  const mimeType = format === 'jpeg' || format === 'heic' ? 'image/jpeg' : 'image/png';
+  const encoded = await codec.encode(image, mimeType, mimeType === 'image/jpeg' ? 0.92 : undefined);
+  return { ...base, url: encoded, base64: stripDataUrl(encoded), mimeType, width: image.width, height: image.height };
+};
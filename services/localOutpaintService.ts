@@ -0,0 +1,86 @@
+import { ExpansionProvider } from "../types";
+import { buildOutpaintCanvas, toDataUrl } from "./imageService";
+import { GenerationError } from "./errorService";
+
+export interface LocalOutpaintConfig {
+  // Base URL of an Automatic1111-compatible API, e.g. http://127.0.0.1:7860
+  baseUrl: string;
+  steps: number;
+  denoisingStrength: number;
+  maxSide: number;
+}
+
+export const DEFAULT_LOCAL_CONFIG: LocalOutpaintConfig = {
+  baseUrl: 'http://127.0.0.1:7860',
+  steps: 30,
+  denoisingStrength: 0.9,
+  maxSide: 1024,
+};
+
+interface Img2ImgResponse {
+  images?: string[];
+}
+
+// Outpainting through a locally hosted Automatic1111 `/sdapi/v1/img2img`
+// endpoint (A1111, Forge and SD.Next serve it; plain ComfyUI does not).
+// Unlike Gemini, it accepts any size, so the exact target ratio is requested.
+export const createLocalOutpaintProvider = (config: LocalOutpaintConfig): ExpansionProvider => ({
+  id: 'local',
+  label: 'A1111-compatible server',
+  supportsAnyRatio: true,
+  // Generates at `maxSide`; larger resolutions go through the upscale stage
+  maxImageSize: '1K',
+  maxCanvasSide: config.maxSide,
+  expand: async ({ imageBase64, mimeType, exactRatio, prompt, canvas, signal }) => {
+    const started = performance.now();
+    const padded = canvas ?? await buildOutpaintCanvas(
+      toDataUrl(imageBase64, mimeType),
+      exactRatio,
+      config.maxSide
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/sdapi/v1/img2img`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          init_images: [padded.imageBase64],
+          mask: padded.maskBase64,
+          prompt,
+          width: padded.width,
+          height: padded.height,
+          steps: config.steps,
+          denoising_strength: config.denoisingStrength,
+          // Fill masked area with latent noise; keep only the masked area
+          inpainting_fill: 2,
+          inpaint_full_res: false,
+          mask_blur: 8,
+        }),
+        signal,
+      });
+    } catch (error) {
+      throw new GenerationError(signal?.aborted ? 'cancelled' : 'network', error,
+        signal?.aborted ? undefined : `Could not reach the local outpainting server at ${config.baseUrl}.`);
+    }
+
+    if (!response.ok) {
+      throw new GenerationError(response.status >= 500 ? 'network' : 'unknown', response.status,
+        `Local outpainting server responded with ${response.status}`);
+    }
+
+    const data = (await response.json()) as Img2ImgResponse;
+    if (!data.images?.length) {
+      throw new GenerationError('no-image');
+    }
+
+    return {
+      images: data.images.map((image) => toDataUrl(image, 'image/png')),
+      metadata: {
+        provider: 'local',
+        model: 'img2img',
+        latencyMs: Math.round(performance.now() - started),
+      },
+    };
+  },
+});
@@ -0,0 +1,49 @@
+import { ExpansionProvider } from "../types";
+import { buildOutpaintCanvas, createCanvas, loadImage, toDataUrl } from "./imageService";
+import { parseRatio } from "./ratioService";
+import { sleep } from "./errorService";
+
+export interface MockProviderConfig {
+  // Simulated network latency
+  delayMs: number;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockProviderConfig = {
+  delayMs: 600,
+};
+
+// Deterministic offline stand-in: behaves like Gemini (returns the model's
+// closest ratio at 1K) but fills the margins with a blurred copy of the photo.
+// The same input always gives the same output.
+export const createMockProvider = (config: MockProviderConfig = DEFAULT_MOCK_CONFIG): ExpansionProvider => ({
+  id: 'mock',
+  label: 'Mock (offline)',
+  supportsAnyRatio: false,
+  maxImageSize: '1K',
+  expand: async ({ imageBase64, mimeType, targetRatio, canvas: requested, signal }) => {
+    const started = performance.now();
+    const padded = requested ?? await buildOutpaintCanvas(toDataUrl(imageBase64, mimeType), parseRatio(targetRatio), 1024);
+    const paddedImg = await loadImage(toDataUrl(padded.imageBase64, 'image/png'));
+    const { placement } = padded;
+
+    const { canvas, ctx } = createCanvas(padded.width, padded.height);
+    ctx.filter = 'blur(24px)';
+    ctx.drawImage(paddedImg, placement.x, placement.y, placement.width, placement.height,
+      0, 0, padded.width, padded.height);
+    ctx.filter = 'none';
+    ctx.drawImage(paddedImg, 0, 0);
+
+    if (config.delayMs > 0) {
+      await sleep(config.delayMs, signal);
+    }
+
+    return {
+      images: [canvas.toDataURL('image/png')],
+      metadata: {
+        provider: 'mock',
+        model: 'mock-blur-fill',
+        latencyMs: Math.round(performance.now() - started),
+      },
+    };
+  },
+});
@@ -0,0 +1,258 @@
+import { ExpansionProvider, PaddedCanvas, Placement } from "../types";
+import { buildOutpaintCanvas, createCanvas, loadImage, toDataUrl } from "./imageService";
+import { GenerationErrorCode, throwIfCancelled, toGenerationError } from "./errorService";
+import { resolutionLongSide } from "./upscaleService";
+
+export type FillMode = 'blur' | 'mirror' | 'stretch' | 'patch' | 'solid' | 'gradient' | 'brand';
+
+export interface OfflineFillConfig {
+  mode: FillMode;
+  // Hex colour of the 'brand' mode
+  brandColor: string;
+  // Fill offline instead of failing when the AI provider's request fails
+  fallback: boolean;
+}
+
+export const DEFAULT_OFFLINE_CONFIG: OfflineFillConfig = {
+  mode: 'blur',
+  brandColor: '#f4efe6',
+  fallback: false,
+};
+
+export const FILL_MODES: { id: FillMode; label: string; description: string }[] = [
+  { id: 'blur', label: 'Blurred backdrop', description: 'A blurred, enlarged copy of the photo' },
+  { id: 'mirror', label: 'Mirrored edges', description: 'The photo reflected at its edges' },
+  { id: 'stretch', label: 'Edge stretch', description: 'The outermost pixels pulled outwards' },
+  { id: 'patch', label: 'Patch fill', description: 'Texture near the edges repeated, without the subject' },
+  { id: 'solid', label: 'Solid colour', description: 'The average colour of the photo’s border' },
+  { id: 'gradient', label: 'Gradient', description: 'Between the colours of opposite edges' },
+  { id: 'brand', label: 'Brand colour', description: 'A colour of your choice' },
+];
+
+// Blur radius of the backdrop, relative to the canvas' longer side
+const BLUR_SCALE = 0.03;
+// Share of the photo near each edge that patch fill repeats
+const PATCH_BAND = 0.15;
+// Share of the photo's border averaged for the colour modes
+const COLOR_BAND = 0.04;
+// Sampling grid for the colour modes
+const SAMPLE_SIZE = 64;
+
+type EdgeColors = Record<'top' | 'bottom' | 'left' | 'right' | 'all', string>;
+
+// Average colours of the photo's border bands
+const sampleEdgeColors = (img: CanvasImageSource, p: Placement): EdgeColors => {
+  const { ctx } = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE, { willReadFrequently: true });
+  ctx.drawImage(img, p.x, p.y, p.width, p.height, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const band = Math.max(1, Math.round(SAMPLE_SIZE * COLOR_BAND));
+
+  const average = (inside: (x: number, y: number) => boolean) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (let y = 0; y < SAMPLE_SIZE; y++) {
+      for (let x = 0; x < SAMPLE_SIZE; x++) {
+        if (!inside(x, y)) continue;
+        const i = (y * SAMPLE_SIZE + x) * 4;
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+        n++;
+      }
+    }
+    return `rgb(${Math.round(r / n)}, ${Math.round(g / n)}, ${Math.round(b / n)})`;
+  };
+
+  const far = SAMPLE_SIZE - band;
+  return {
+    top: average((_, y) => y < band),
+    bottom: average((_, y) => y >= far),
+    left: average((x) => x < band),
+    right: average((x) => x >= far),
+    all: average((x, y) => x < band || y < band || x >= far || y >= far),
+  };
+};
+
+const fillBlur = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, p: Placement) => {
+  const { width, height } = ctx.canvas;
+  const radius = Math.round(Math.max(width, height) * BLUR_SCALE);
+  // Oversized so the blur does not fade into the transparent canvas edge
+  const cover = Math.max((width + radius * 4) / p.width, (height + radius * 4) / p.height);
+  const w = p.width * cover;
+  const h = p.height * cover;
+  ctx.filter = `blur(${radius}px)`;
+  ctx.drawImage(img, p.x, p.y, p.width, p.height, (width - w) / 2, (height - h) / 2, w, h);
+  ctx.filter = 'none';
+};
+
+const fillStretch = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, p: Placement) => {
+  const { width, height } = ctx.canvas;
+  const right = p.x + p.width;
+  const bottom = p.y + p.height;
+  const columns = [
+    { sx: p.x, dx: 0, dw: p.x },
+    { sx: p.x, dx: p.x, dw: p.width, sw: p.width },
+    { sx: right - 1, dx: right, dw: width - right },
+  ];
+  const rows = [
+    { sy: p.y, dy: 0, dh: p.y },
+    { sy: p.y, dy: p.y, dh: p.height, sh: p.height },
+    { sy: bottom - 1, dy: bottom, dh: height - bottom },
+  ];
+  // Each margin cell stretches the nearest edge row, column or corner pixel
+  for (const column of columns) {
+    for (const row of rows) {
+      if (column.dw <= 0 || row.dh <= 0 || (column.sw && row.sh)) continue;
+      ctx.drawImage(img, column.sx, row.sy, column.sw ?? 1, row.sh ?? 1, column.dx, row.dy, column.dw, row.dh);
+    }
+  }
+};
+
+// Repeats a band of the photo next to each edge outwards, mirroring every
+// other copy so neighbouring copies meet seamlessly. With `band` = 1 the
+// whole photo is mirrored.
+const fillPingPong = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, p: Placement, band: number) => {
+  const { width, height } = ctx.canvas;
+  const bw = Math.max(1, Math.round(p.width * band));
+  const bh = Math.max(1, Math.round(p.height * band));
+  ctx.drawImage(img, 0, 0);
+
+  // Horizontal pass over the photo's rows
+  const drawColumn = (sx: number, dx: number, flip: boolean) => {
+    ctx.save();
+    ctx.translate(dx + (flip ? bw : 0), p.y);
+    ctx.scale(flip ? -1 : 1, 1);
+    ctx.drawImage(img, sx, p.y, bw, p.height, 0, 0, bw, p.height);
+    ctx.restore();
+  };
+  for (let dx = p.x - bw, i = 0; dx + bw > 0; dx -= bw, i++) drawColumn(p.x, dx, i % 2 === 0);
+  for (let dx = p.x + p.width, i = 0; dx < width; dx += bw, i++) drawColumn(p.x + p.width - bw, dx, i % 2 === 0);
+
+  // Vertical pass over the now full-width rows, which also fills the corners
+  const { canvas: rows } = createCanvas(width, height);
+  rows.getContext('2d')!.drawImage(ctx.canvas, 0, 0);
+  const drawRow = (sy: number, dy: number, flip: boolean) => {
+    ctx.save();
+    ctx.translate(0, dy + (flip ? bh : 0));
+    ctx.scale(1, flip ? -1 : 1);
+    ctx.drawImage(rows, 0, sy, width, bh, 0, 0, width, bh);
+    ctx.restore();
+  };
+  for (let dy = p.y - bh, i = 0; dy + bh > 0; dy -= bh, i++) drawRow(p.y, dy, i % 2 === 0);
+  for (let dy = p.y + p.height, i = 0; dy < height; dy += bh, i++) drawRow(p.y + p.height - bh, dy, i % 2 === 0);
+};
+
+// Softens the repetition of patch fill with a blurred copy over the margins
+const softenMargins = (ctx: CanvasRenderingContext2D, p: Placement) => {
+  const { width, height } = ctx.canvas;
+  const { canvas: copy } = createCanvas(width, height);
+  copy.getContext('2d')!.drawImage(ctx.canvas, 0, 0);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.rect(p.x, p.y, p.width, p.height);
+  ctx.clip('evenodd');
+  ctx.globalAlpha = 0.5;
+  ctx.filter = `blur(${Math.round(Math.max(width, height) * BLUR_SCALE / 2)}px)`;
+  ctx.drawImage(copy, 0, 0);
+  ctx.restore();
+};
+
+const fillGradient = (ctx: CanvasRenderingContext2D, colors: EdgeColors, p: Placement) => {
+  const { width, height } = ctx.canvas;
+  // Along the axis with the larger margins
+  const vertical = height - p.height >= width - p.width;
+  const gradient = vertical ? ctx.createLinearGradient(0, 0, 0, height) : ctx.createLinearGradient(0, 0, width, 0);
+  gradient.addColorStop(0, vertical ? colors.top : colors.left);
+  gradient.addColorStop(1, vertical ? colors.bottom : colors.right);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Fills the transparent margins of `padded` without any model
+export const fillCanvas = async (padded: PaddedCanvas, config: OfflineFillConfig): Promise<string> => {
+  const img = await loadImage(toDataUrl(padded.imageBase64, 'image/png'));
+  const p = padded.placement;
+  const { canvas, ctx } = createCanvas(padded.width, padded.height);
+  // Base layer, so holes the modes below do not reach (e.g. inside the
+  // placement when refining) never stay transparent
+  const colors = sampleEdgeColors(img, p);
+  ctx.fillStyle = colors.all;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  switch (config.mode) {
+    case 'mirror':
+      fillPingPong(ctx, img, p, 1);
+      break;
+    case 'stretch':
+      fillStretch(ctx, img, p);
+      break;
+    case 'patch':
+      fillPingPong(ctx, img, p, PATCH_BAND);
+      softenMargins(ctx, p);
+      break;
+    case 'solid':
+      // The base layer alone
+      break;
+    case 'gradient':
+      fillGradient(ctx, colors, p);
+      break;
+    case 'brand':
+      ctx.fillStyle = config.brandColor;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      break;
+    default:
+      fillBlur(ctx, img, p);
+  }
+  // The canvas as given stays on top, so only empty pixels take the fill
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Client-side expansion without an API call. Works at any ratio and
+// resolution, so the output is generated at the exact size requested.
+export const createOfflineFillProvider = (config: OfflineFillConfig): ExpansionProvider => ({
+  id: 'offline',
+  label: 'Offline fill',
+  supportsAnyRatio: true,
+  maxImageSize: '4K',
+  expand: async ({ imageBase64, mimeType, exactRatio, imageSize, canvas: requested, signal }) => {
+    const started = performance.now();
+    const padded = requested ?? await buildOutpaintCanvas(
+      toDataUrl(imageBase64, mimeType),
+      exactRatio,
+      resolutionLongSide(imageSize ?? '1K')
+    );
+    throwIfCancelled(signal);
+    return {
+      images: [await fillCanvas(padded, config)],
+      metadata: {
+        provider: 'offline',
+        model: `fill-${config.mode}`,
+        latencyMs: Math.round(performance.now() - started),
+      },
+    };
+  },
+});
+
+// Failures the offline fill stands in for. Anything else, e.g. a safety
+// block, is the model's answer to this photo and is passed on.
+const FALLBACK_CODES: GenerationErrorCode[] = ['invalid-key', 'quota', 'network', 'timeout'];
+
+// Falls back to the offline fill when `provider` fails without a valid key,
+// quota or network, or times out. The reason is kept on the metadata.
+export const withOfflineFallback = (provider: ExpansionProvider, config: OfflineFillConfig): ExpansionProvider => {
+  const fill = createOfflineFillProvider(config);
+  return {
+    ...provider,
+    expand: async (request) => {
+      try {
+        return await provider.expand(request);
+      } catch (err) {
+        const error = toGenerationError(err);
+        if (!FALLBACK_CODES.includes(error.code)) throw error;
+        const response = await fill.expand(request);
+        return { ...response, metadata: { ...response.metadata, fallbackReason: error.message } };
+      }
+    },
+  };
+};
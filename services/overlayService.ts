@@ -0,0 +1,72 @@
+import { FormatId, RatioSize } from "../types";
+import { INSTAGRAM_PORTRAIT, INSTAGRAM_SQUARE, INSTAGRAM_STORY, getFormat } from "./formatService";
+
+export type OverlayKind = 'safe-zone' | 'grid-crop' | 'profile-grid';
+
+// A region of the frame in fractions (0-1) of its width and height
+export interface OverlayRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+}
+
+export interface SafeZoneBand {
+  edge: 'top' | 'bottom';
+  // Pixels of the recommended upload size covered by Instagram's UI
+  size: number;
+  label: string;
+}
+
+export interface OverlayLayout {
+  storySafeZones: SafeZoneBand[];
+  // Ratio of the profile grid thumbnail, a centre crop of the post
+  gridThumbnail: RatioSize;
+  profileGrid: { columns: number; recentPosts: number };
+}
+
+// Instagram's current layout. Only these numbers need to change when the
+// app moves its UI; the overlays are computed from them.
+export const INSTAGRAM_LAYOUT: OverlayLayout = {
+  storySafeZones: [
+    { edge: 'top', size: 250, label: 'Profile & progress bar' },
+    { edge: 'bottom', size: 340, label: 'Reply bar & links' },
+  ],
+  gridThumbnail: { width: 3, height: 4 },
+  profileGrid: { columns: 3, recentPosts: 8 },
+};
+
+export const OVERLAYS: { id: OverlayKind; label: string; formats: FormatId[] }[] = [
+  { id: 'safe-zone', label: 'Story safe zones', formats: [INSTAGRAM_STORY] },
+  { id: 'grid-crop', label: 'Grid crop', formats: [INSTAGRAM_SQUARE, INSTAGRAM_PORTRAIT] },
+  { id: 'profile-grid', label: 'Profile grid', formats: [INSTAGRAM_SQUARE, INSTAGRAM_PORTRAIT] },
+];
+
+export const overlaysFor = (ratio: FormatId) => {
+  const id = getFormat(ratio).id;
+  return OVERLAYS.filter((overlay) => overlay.formats.includes(id));
+};
+
+export const availableOverlays = (ratio: FormatId): OverlayKind[] => overlaysFor(ratio).map((overlay) => overlay.id);
+
+// Bands hidden behind the Story UI, empty for feed formats
+export const safeZoneRects = (ratio: FormatId, layout: OverlayLayout = INSTAGRAM_LAYOUT): OverlayRect[] => {
+  const format = getFormat(ratio);
+  if (format.id !== INSTAGRAM_STORY) return [];
+  const frameHeight = format.size.height;
+  return layout.storySafeZones.map((band) => {
+    const height = band.size / frameHeight;
+    return { x: 0, y: band.edge === 'top' ? 0 : 1 - height, width: 1, height, label: band.label };
+  });
+};
+
+// Centre crop the profile grid shows of a post in this format
+export const gridCropRect = (ratio: FormatId, layout: OverlayLayout = INSTAGRAM_LAYOUT): OverlayRect => {
+  const frame = getFormat(ratio).ratio;
+  const frameAspect = frame.width / frame.height;
+  const thumbAspect = layout.gridThumbnail.width / layout.gridThumbnail.height;
+  const width = frameAspect > thumbAspect ? thumbAspect / frameAspect : 1;
+  const height = frameAspect > thumbAspect ? 1 : frameAspect / thumbAspect;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
@@ -0,0 +1,71 @@
+import { Placement, PlacementLayout } from "../types";
+
+export type PlacementPreset = 'top' | 'center' | 'bottom' | 'upper-third' | 'lower-third';
+
+export const PLACEMENT_PRESETS: { id: PlacementPreset; label: string }[] = [
+  { id: 'top', label: 'Top' },
+  { id: 'upper-third', label: 'Upper ⅓' },
+  { id: 'center', label: 'Centre' },
+  { id: 'lower-third', label: 'Lower ⅓' },
+  { id: 'bottom', label: 'Bottom' },
+];
+
+export const MIN_LAYOUT_SCALE = 0.3;
+
+export const DEFAULT_LAYOUT: PlacementLayout = { centerX: 0.5, centerY: 0.5, scale: 1 };
+
+// Size of the placed original as a fraction of the frame
+export const layoutFractions = (layout: PlacementLayout, frameAspect: number, imageAspect: number) => {
+  // Fitting fully: the image touches either the frame's sides or its top and bottom
+  const fitWidth = Math.min(1, imageAspect / frameAspect);
+  const width = fitWidth * layout.scale;
+  return { width, height: (width * frameAspect) / imageAspect };
+};
+
+// Keeps the original inside the frame and its scale in range
+export const clampLayout = (layout: PlacementLayout, frameAspect: number, imageAspect: number): PlacementLayout => {
+  const scale = Math.min(1, Math.max(MIN_LAYOUT_SCALE, layout.scale));
+  const { width, height } = layoutFractions({ ...layout, scale }, frameAspect, imageAspect);
+  const clamp = (value: number, half: number) => Math.min(1 - half, Math.max(half, value));
+  return {
+    centerX: clamp(layout.centerX, width / 2),
+    centerY: clamp(layout.centerY, height / 2),
+    scale,
+  };
+};
+
+export const applyPreset = (
+  preset: PlacementPreset,
+  layout: PlacementLayout,
+  frameAspect: number,
+  imageAspect: number
+): PlacementLayout => {
+  const { height } = layoutFractions(layout, frameAspect, imageAspect);
+  const centerY = {
+    top: height / 2,
+    'upper-third': 1 / 3,
+    center: 0.5,
+    'lower-third': 2 / 3,
+    bottom: 1 - height / 2,
+  }[preset];
+  return clampLayout({ ...layout, centerX: 0.5, centerY }, frameAspect, imageAspect);
+};
+
+// Pixel rectangle of the original inside a frame of the given size
+export const layoutToRect = (
+  layout: PlacementLayout,
+  frameWidth: number,
+  frameHeight: number,
+  imageWidth: number,
+  imageHeight: number
+): Placement => {
+  const { width, height } = layoutFractions(layout, frameWidth / frameHeight, imageWidth / imageHeight);
+  const w = Math.round(width * frameWidth);
+  const h = Math.round(height * frameHeight);
+  return {
+    x: Math.round(layout.centerX * frameWidth - w / 2),
+    y: Math.round(layout.centerY * frameHeight - h / 2),
+    width: w,
+    height: h,
+  };
+};
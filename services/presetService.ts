@@ -0,0 +1,98 @@
+import { StylePreset } from "../types";
+
+const STORAGE_KEY = 'instaexpand.presets';
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  {
+    id: 'builtin-studio',
+    name: 'Studio backdrop',
+    prompt: 'Extend the scene as a seamless professional photo studio backdrop with soft, even lighting and a subtle gradient.',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-beach',
+    name: 'Extend beach',
+    prompt: 'Continue the beach naturally: more sand, sea and sky in the same light, with no extra people or objects.',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-captions',
+    name: 'Space for captions',
+    prompt: 'Fill the new area with clean, calm, low-detail space (plain wall, sky or soft blur) suitable for overlaying caption text.',
+    builtIn: true,
+  },
+  {
+    id: 'builtin-brand',
+    name: 'Brand colours',
+    prompt: 'Extend the background with a minimal, uncluttered design using the brand palette #E1306C, #F77737 and #FCAF45, blending into the photo.',
+    builtIn: true,
+  },
+];
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const isPresetLike = (value: unknown): value is { name: string; prompt: string } =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as StylePreset).name === 'string' && (value as StylePreset).name.trim() !== '' &&
+  typeof (value as StylePreset).prompt === 'string' && (value as StylePreset).prompt.trim() !== '';
+
+export const loadCustomPresets = (): StylePreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isPresetLike) as StylePreset[] : [];
+  } catch (e) {
+    console.warn("Could not read saved presets", e);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: StylePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter((preset) => !preset.builtIn)));
+};
+
+export const exportPresets = (presets: StylePreset[]): string => {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets
+      .filter((preset) => !preset.builtIn)
+      .map(({ name, prompt }) => ({ name, prompt })),
+  }, null, 2);
+};
+
+// Accepts an exported file (`{ version, presets }`) or a bare array of
+// `{ name, prompt }`. Throws when the JSON holds no usable presets.
+export const parsePresetFile = (json: string): StylePreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The preset file is not valid JSON.");
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) {
+    throw new Error("The preset file does not contain a list of presets.");
+  }
+
+  const presets = list.filter(isPresetLike).map((preset) => ({
+    id: createPresetId(),
+    name: preset.name.trim(),
+    prompt: preset.prompt.trim(),
+  }));
+  if (presets.length === 0) {
+    throw new Error("No presets with a name and prompt were found in the file.");
+  }
+  return presets;
+};
+
+// Imported presets replace custom presets with the same name
+export const mergePresets = (existing: StylePreset[], imported: StylePreset[]): StylePreset[] => {
+  const names = new Set(imported.map((preset) => preset.name.toLowerCase()));
+  return [
+    ...existing.filter((preset) => preset.builtIn || !names.has(preset.name.toLowerCase())),
+    ...imported,
+  ];
+};
@@ -0,0 +1,67 @@
+import { ExpansionProvider, ProviderId } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createLocalOutpaintProvider } from "./localOutpaintService";
+import { createMockProvider } from "./mockProviderService";
+import { createOfflineFillProvider, withOfflineFallback } from "./offlineFillService";
+import { AppSettings } from "./settingsService";
+
+export interface ProviderOption {
+  id: ProviderId;
+  label: string;
+  description: string;
+  // Whether the provider needs a Gemini API key to run
+  requiresApiKey: boolean;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini',
+    description: 'Google Cloud, billed per image',
+    requiresApiKey: true,
+  },
+  {
+    id: 'local',
+    label: 'Local server (A1111)',
+    description: 'Automatic1111-compatible img2img API (A1111, Forge, SD.Next)',
+    requiresApiKey: false,
+  },
+  {
+    id: 'offline',
+    label: 'Offline fill',
+    description: 'Blur, mirror or colour fill, no AI',
+    requiresApiKey: false,
+  },
+  {
+    id: 'mock',
+    label: 'Mock',
+    description: 'Offline blur fill for testing',
+    requiresApiKey: false,
+  },
+];
+
+export const providerRequiresApiKey = (id: ProviderId) =>
+  PROVIDER_OPTIONS.find((option) => option.id === id)?.requiresApiKey ?? false;
+
+const createBaseProvider = (settings: AppSettings): ExpansionProvider => {
+  switch (settings.provider) {
+    case 'local':
+      return createLocalOutpaintProvider(settings.local);
+    case 'offline':
+      return createOfflineFillProvider(settings.offline);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings.gemini);
+  }
+};
+
+// Providers that offer the offline fill as a fallback when they fail
+export const supportsOfflineFallback = (id: ProviderId) => id === 'gemini' || id === 'local';
+
+export const createProvider = (settings: AppSettings): ExpansionProvider => {
+  const provider = createBaseProvider(settings);
+  return settings.offline.fallback && supportsOfflineFallback(settings.provider)
+    ? withOfflineFallback(provider, settings.offline)
+    : provider;
+};
@@ -0,0 +1,95 @@
+import { Placement } from "../types";
+import { PixelBuffer, PixelCodec, cropPixels, downsampleLuma } from "./imageService";
+
+export interface QualitySettings {
+  // Minimum SSIM of the original region before an output is trusted
+  threshold: number;
+  // Total generation attempts while the output keeps drifting
+  maxAttempts: number;
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  threshold: 0.75,
+  maxAttempts: 3,
+};
+
+const WORK_SIZE = 256;
+const WINDOW = 8;
+const STRIDE = 4;
+// Output pixels the placement is moved by, each way, when scoring
+const SEARCH_RADIUS = 2;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+// Mean structural similarity (SSIM) of two equally sized luma planes,
+// computed over overlapping 8x8 windows. 1 means identical structure.
+export const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  let total = 0;
+  let windows = 0;
+  const n = WINDOW * WINDOW;
+
+  for (let y = 0; y + WINDOW <= height; y += STRIDE) {
+    for (let x = 0; x + WINDOW <= width; x += STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let wy = 0; wy < WINDOW; wy++) {
+        for (let wx = 0; wx < WINDOW; wx++) {
+          const i = (y + wy) * width + x + wx;
+          sumA += a[i];
+          sumB += b[i];
+          sumAA += a[i] * a[i];
+          sumBB += b[i] * b[i];
+          sumAB += a[i] * b[i];
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? total / windows : 0;
+};
+
+export interface RegionScore {
+  score: number;
+  // The placement the score was measured at, after the local search
+  placement: Placement | null;
+}
+
+// Scores how faithfully the generated image kept the original inside the
+// given placement. A located placement can be a pixel or two off, which alone
+// drops the SSIM of a detailed photo below the threshold, so offsets up to
+// SEARCH_RADIUS pixels around it are tried and the best one is kept.
+// Scores 0 when the original could not be located at all.
+export const scoreOriginalRegion = async (
+  output: PixelBuffer,
+  original: PixelBuffer,
+  placement: Placement | null,
+  codec: PixelCodec
+): Promise<RegionScore> => {
+  if (!placement) return { score: 0, placement };
+
+  const k = Math.min(1, WORK_SIZE / Math.max(placement.width, placement.height));
+  const width = Math.max(WINDOW, Math.round(placement.width * k));
+  const height = Math.max(WINDOW, Math.round(placement.height * k));
+  const originalLuma = downsampleLuma(await codec.resize(original, width, height), width, height);
+
+  let best: RegionScore = { score: -Infinity, placement };
+  for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+    for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+      const shifted = { ...placement, x: placement.x + dx, y: placement.y + dy };
+      const inside = shifted.x >= 0 && shifted.y >= 0 &&
+        shifted.x + shifted.width <= output.width && shifted.y + shifted.height <= output.height;
+      if (!inside && (dx !== 0 || dy !== 0)) continue;
+
+      const region = await codec.resize(cropPixels(output, shifted), width, height);
+      const score = computeSsim(downsampleLuma(region, width, height), originalLuma, width, height);
+      if (score > best.score) best = { score, placement: shifted };
+    }
+  }
+  return best;
+};
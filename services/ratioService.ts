@@ -0,0 +1,132 @@
+import { FormatId, Placement, RatioSize } from "../types";
+import { PixelBuffer, cropPixels, luminance } from "./imageService";
+import { getFormat } from "./formatService";
+
+// '3:4' -> { width: 3, height: 4 }
+export const parseRatio = (ratio: string): RatioSize => {
+  const [width, height] = ratio.split(':').map(Number);
+  return { width, height };
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Human readable ratio of actual pixel dimensions, e.g. 864x1080 -> "4:5"
+export const describeDimensions = (width: number, height: number): string => {
+  const d = gcd(width, height);
+  const w = width / d;
+  const h = height / d;
+  if (w <= 32 && h <= 32) {
+    return `${w}:${h}`;
+  }
+  return `${(width / height).toFixed(2)}:1`;
+};
+
+// { width: 4, height: 5 } -> "4:5", { width: 191, height: 100 } -> "1.91:1"
+export const formatRatio = (ratio: RatioSize): string => describeDimensions(ratio.width, ratio.height);
+
+// Largest size with exactly the target ratio that fits inside the source
+export const computeExactSize = (width: number, height: number, target: RatioSize): RatioSize => {
+  const d = gcd(target.width, target.height);
+  const unitW = target.width / d;
+  const unitH = target.height / d;
+  const k = Math.min(Math.floor(width / unitW), Math.floor(height / unitH));
+  return { width: k * unitW, height: k * unitH };
+};
+
+// Per-line detail along one axis ('rows' scores each y, 'columns' each x)
+export const lineEnergy = (image: PixelBuffer, axis: 'rows' | 'columns'): number[] => {
+  const { width, height, data } = image;
+  const energy = new Array<number>(axis === 'rows' ? height : width).fill(0);
+
+  for (let y = 1; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const l = luminance(data, i);
+      const dx = Math.abs(l - luminance(data, i - 4));
+      const dy = Math.abs(l - luminance(data, i - width * 4));
+      energy[axis === 'rows' ? y : x] += dx + dy;
+    }
+  }
+  return energy;
+};
+
+// Start of the window of `length` lines that keeps the most detail.
+// Ties go to the window closest to the centre. When `keep` is given, only
+// windows that fully contain that [start, end) span are considered if possible.
+export const findBestWindow = (energy: number[], length: number, keep?: [number, number]): number => {
+  const maxStart = energy.length - length;
+  if (maxStart <= 0) return 0;
+
+  let minStart = 0;
+  let lastStart = maxStart;
+  if (keep && keep[1] - keep[0] <= length) {
+    minStart = Math.max(0, keep[1] - length);
+    lastStart = Math.min(maxStart, keep[0]);
+  }
+
+  const prefix = [0];
+  for (const e of energy) prefix.push(prefix[prefix.length - 1] + e);
+
+  const centre = maxStart / 2;
+  let best = minStart;
+  let bestScore = -Infinity;
+  for (let start = minStart; start <= lastStart; start++) {
+    const score = prefix[start + length] - prefix[start];
+    const closer = Math.abs(start - centre) < Math.abs(best - centre);
+    if (score > bestScore || (score === bestScore && closer)) {
+      best = start;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export interface FramedPixels {
+  image: PixelBuffer;
+  // Where the original sits in the trimmed image, when known
+  placement?: Placement;
+}
+
+// Turns the model's closest supported ratio into the exact target ratio by
+// trimming the low-detail edge lines instead of blindly centre cropping.
+// A known placement of the original is kept inside the trimmed frame.
+export const fitToExactRatio = (image: PixelBuffer, ratio: FormatId, placement?: Placement): FramedPixels => {
+  const size = computeExactSize(image.width, image.height, getFormat(ratio).ratio);
+  if (size.width === image.width && size.height === image.height) {
+    return { image, placement };
+  }
+
+  const offsetX = findBestWindow(
+    lineEnergy(image, 'columns'), size.width,
+    placement && [placement.x, placement.x + placement.width]
+  );
+  const offsetY = findBestWindow(
+    lineEnergy(image, 'rows'), size.height,
+    placement && [placement.y, placement.y + placement.height]
+  );
+
+  return cropImage(image, offsetX, offsetY, size, placement);
+};
+
+const cropImage = (
+  image: PixelBuffer,
+  offsetX: number,
+  offsetY: number,
+  size: RatioSize,
+  placement?: Placement
+): FramedPixels => ({
+  image: cropPixels(image, { x: offsetX, y: offsetY, ...size }),
+  placement: placement && { ...placement, x: placement.x - offsetX, y: placement.y - offsetY },
+});
+
+// Crops a known frame (e.g. the one the user laid the original out in),
+// shrunk by rounding to the exact target ratio
+export const cropToFrame = (
+  image: PixelBuffer,
+  ratio: FormatId,
+  frame: Placement,
+  placement?: Placement
+): FramedPixels => {
+  const size = computeExactSize(frame.width, frame.height, getFormat(ratio).ratio);
+  return cropImage(image, frame.x, frame.y, size, placement);
+};
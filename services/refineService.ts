@@ -0,0 +1,216 @@
+import { ExpansionProvider, GeneratedImage, Placement, RatioSize } from "../types";
+import { canvasSize, createCanvas, loadImage, stripDataUrl } from "./imageService";
+import { nearestModelRatio } from "./formatService";
+import { parseRatio } from "./ratioService";
+import { throwIfCancelled } from "./errorService";
+import { geminiProvider } from "./geminiService";
+
+export type MaskTool = 'brush' | 'eraser';
+
+// One brush or eraser drag, in output pixels
+export interface MaskStroke {
+  tool: MaskTool;
+  size: number;
+  points: { x: number; y: number }[];
+}
+
+export interface RefineOptions {
+  provider?: ExpansionProvider;
+  // What the marked area should show instead; a generic fix when empty
+  instruction?: string;
+  throttle?: () => Promise<void>;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_REFINE_PROMPT =
+  "Redraw the marked area so it blends naturally with its surroundings. Remove warped objects and any text.";
+
+// Surrounding image sent along, relative to the marked area's size
+const CONTEXT_SCALE = 0.5;
+const MIN_CONTEXT = 48;
+// Longer side of the canvas sent to the model
+const CANVAS_MAX_SIDE = 1024;
+// Soft edge of the pasted patch, in output pixels
+const FEATHER = 6;
+
+// Draws the strokes in order; eraser strokes remove earlier paint
+export const renderStrokes = (ctx: CanvasRenderingContext2D, strokes: MaskStroke[], color: string) => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const stroke of strokes) {
+    ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = color;
+    ctx.lineWidth = stroke.size;
+    ctx.beginPath();
+    stroke.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    // A click without movement still leaves a dot
+    if (stroke.points.length === 1) ctx.lineTo(stroke.points[0].x + 0.01, stroke.points[0].y);
+    ctx.stroke();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+// Bounding box of the painted pixels, or null when nothing is painted
+export const maskBounds = (mask: ImageData): Placement | null => {
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.data[(y * mask.width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Shrinks the painted area by `radius` pixels, in place: each alpha becomes
+// the minimum over a square around it, one axis at a time
+const erodeMask = (mask: ImageData, radius: number) => {
+  const { width, height, data } = mask;
+  const alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+
+  const pass = (source: Uint8ClampedArray, horizontal: boolean) => {
+    const eroded = new Uint8ClampedArray(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const along = horizontal ? x : y;
+        const length = horizontal ? width : height;
+        let min = 255;
+        for (let d = Math.max(0, along - radius); d <= Math.min(length - 1, along + radius) && min > 0; d++) {
+          min = Math.min(min, source[horizontal ? y * width + d : d * width + x]);
+        }
+        eroded[y * width + x] = min;
+      }
+    }
+    return eroded;
+  };
+
+  const eroded = pass(pass(alpha, true), false);
+  for (let i = 0; i < eroded.length; i++) data[i * 4 + 3] = eroded[i];
+};
+
+// Area around `bounds` with some context, at `ratio` and inside the image.
+// Falls back to the largest window of that ratio when the area is too big.
+export const refineWindow = (bounds: Placement, width: number, height: number, ratio: RatioSize): Placement => {
+  const aspect = ratio.width / ratio.height;
+  const margin = Math.max(MIN_CONTEXT, Math.max(bounds.width, bounds.height) * CONTEXT_SCALE);
+  let w = bounds.width + margin * 2;
+  let h = bounds.height + margin * 2;
+  if (w / h < aspect) w = h * aspect;
+  else h = w / aspect;
+  if (w > width) {
+    w = width;
+    h = w / aspect;
+  }
+  if (h > height) {
+    h = height;
+    w = h * aspect;
+  }
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  const x = Math.min(width - w, Math.max(0, cx - w / 2));
+  const y = Math.min(height - h, Math.max(0, cy - h / 2));
+  return { x: Math.round(x), y: Math.round(y), width: Math.round(w), height: Math.round(h) };
+};
+
+// Regenerates only the painted area of `result`. `mask` is a canvas at the
+// output size whose painted pixels mark the area; everything else keeps its
+// pixels exactly.
+export const refineRegion = async (
+  result: GeneratedImage,
+  mask: HTMLCanvasElement,
+  options: RefineOptions = {}
+): Promise<GeneratedImage> => {
+  const provider = options.provider ?? geminiProvider;
+  const maskCtx = mask.getContext('2d');
+  const bounds = maskCtx && maskBounds(maskCtx.getImageData(0, 0, mask.width, mask.height));
+  if (!bounds) {
+    throw new Error("Paint over the area to regenerate first.");
+  }
+
+  // Providers with fixed ratios get a window at one of theirs, so the patch is not stretched
+  const modelRatio = nearestModelRatio({ width: bounds.width, height: bounds.height });
+  const ratio = provider.supportsAnyRatio ? { width: bounds.width, height: bounds.height } : parseRatio(modelRatio);
+  const area = refineWindow(bounds, result.width, result.height, ratio);
+  const size = canvasSize({ width: area.width, height: area.height }, CANVAS_MAX_SIDE);
+
+  const img = await loadImage(result.url);
+  const sx = img.naturalWidth / result.width;
+  const sy = img.naturalHeight / result.height;
+
+  // The window with the painted area cut out, and its mask: white is regenerated
+  const { canvas: input, ctx: inputCtx } = createCanvas(size.width, size.height);
+  inputCtx.drawImage(img, area.x * sx, area.y * sy, area.width * sx, area.height * sy, 0, 0, size.width, size.height);
+  inputCtx.globalCompositeOperation = 'destination-out';
+  inputCtx.drawImage(mask, area.x, area.y, area.width, area.height, 0, 0, size.width, size.height);
+
+  const { canvas: maskImage, ctx: maskImageCtx } = createCanvas(size.width, size.height);
+  maskImageCtx.fillStyle = '#000000';
+  maskImageCtx.fillRect(0, 0, size.width, size.height);
+  const { canvas: whiteMask, ctx: whiteCtx } = createCanvas(size.width, size.height);
+  whiteCtx.drawImage(mask, area.x, area.y, area.width, area.height, 0, 0, size.width, size.height);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#ffffff';
+  whiteCtx.fillRect(0, 0, size.width, size.height);
+  maskImageCtx.drawImage(whiteMask, 0, 0);
+
+  throwIfCancelled(options.signal);
+  await options.throttle?.();
+  throwIfCancelled(options.signal);
+
+  const instruction = options.instruction?.trim();
+  const inputBase64 = stripDataUrl(input.toDataURL('image/png'));
+  const response = await provider.expand({
+    imageBase64: inputBase64,
+    mimeType: 'image/png',
+    targetRatio: modelRatio,
+    exactRatio: { width: size.width, height: size.height },
+    imageSize: '1K',
+    prompt: instruction ? `In the marked area: ${instruction}` : DEFAULT_REFINE_PROMPT,
+    canvas: {
+      imageBase64: inputBase64,
+      maskBase64: stripDataUrl(maskImage.toDataURL('image/png')),
+      width: size.width,
+      height: size.height,
+      // Everything outside the mask is kept, like the original photo when expanding
+      placement: { x: 0, y: 0, width: size.width, height: size.height },
+    },
+    signal: options.signal,
+  });
+  throwIfCancelled(options.signal);
+
+  // The feather fades inwards from the strokes: the mask is shrunk by the
+  // feather before the blur, so unpainted pixels are never replaced
+  const { canvas: feathered, ctx: featheredCtx } = createCanvas(area.width, area.height, { willReadFrequently: true });
+  featheredCtx.drawImage(mask, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height);
+  const inner = featheredCtx.getImageData(0, 0, area.width, area.height);
+  erodeMask(inner, FEATHER);
+  featheredCtx.putImageData(inner, 0, 0);
+
+  // The model's window, limited to the feathered mask, pasted over the output
+  const output = await loadImage(response.images[0]);
+  const { canvas: patch, ctx: patchCtx } = createCanvas(area.width, area.height);
+  patchCtx.drawImage(output, 0, 0, area.width, area.height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.filter = `blur(${FEATHER / 2}px)`;
+  patchCtx.drawImage(feathered, 0, 0);
+  patchCtx.filter = 'none';
+  // The blur's faint tail past the shrunk edge stays within the strokes
+  patchCtx.drawImage(mask, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height);
+
+  const { canvas: refined, ctx } = createCanvas(result.width, result.height);
+  ctx.drawImage(img, 0, 0, result.width, result.height);
+  ctx.drawImage(patch, area.x, area.y);
+
+  return {
+    ...result,
+    url: refined.toDataURL('image/png'),
+    metadata: response.metadata,
+    refinedWith: instruction || DEFAULT_REFINE_PROMPT,
+  };
+};
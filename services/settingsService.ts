@@ -0,0 +1,60 @@
+import { ImageSize, ProviderId } from "../types";
+import { DEFAULT_LOCAL_CONFIG, LocalOutpaintConfig } from "./localOutpaintService";
+import { DEFAULT_HISTORY_POLICY, HistoryPolicy } from "./historyService";
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions } from "./exportService";
+import { DEFAULT_USAGE_SETTINGS, UsageSettings } from "./usageService";
+import { DEFAULT_GEMINI_CONFIG, GeminiConfig } from "./geminiService";
+import { DEFAULT_OFFLINE_CONFIG, OfflineFillConfig } from "./offlineFillService";
+import { DEFAULT_QUALITY_SETTINGS, QualitySettings } from "./qualityService";
+
+export interface AppSettings {
+  provider: ProviderId;
+  gemini: GeminiConfig;
+  local: LocalOutpaintConfig;
+  offline: OfflineFillConfig;
+  history: HistoryPolicy;
+  export: ExportOptions;
+  resolution: ImageSize;
+  usage: UsageSettings;
+  quality: QualitySettings;
+}
+
+const STORAGE_KEY = 'instaexpand.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  gemini: DEFAULT_GEMINI_CONFIG,
+  local: DEFAULT_LOCAL_CONFIG,
+  offline: DEFAULT_OFFLINE_CONFIG,
+  history: DEFAULT_HISTORY_POLICY,
+  export: DEFAULT_EXPORT_OPTIONS,
+  resolution: '1K',
+  usage: DEFAULT_USAGE_SETTINGS,
+  quality: DEFAULT_QUALITY_SETTINGS,
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<AppSettings>;
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      gemini: { ...DEFAULT_SETTINGS.gemini, ...stored.gemini },
+      local: { ...DEFAULT_SETTINGS.local, ...stored.local },
+      offline: { ...DEFAULT_SETTINGS.offline, ...stored.offline },
+      history: { ...DEFAULT_SETTINGS.history, ...stored.history },
+      export: { ...DEFAULT_SETTINGS.export, ...stored.export },
+      usage: { ...DEFAULT_SETTINGS.usage, ...stored.usage },
+      quality: { ...DEFAULT_SETTINGS.quality, ...stored.quality },
+    };
+  } catch (e) {
+    console.warn("Could not read settings, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,181 @@
+import { ImageSize, Placement, RatioSize } from "../types";
+import { PixelBuffer, PixelCodec, createPixels } from "./imageService";
+import { restoreOriginal } from "./compositingService";
+import { throwIfCancelled } from "./errorService";
+
+export const RESOLUTIONS: { id: ImageSize; longSide: number }[] = [
+  { id: '1K', longSide: 1024 },
+  { id: '2K', longSide: 2048 },
+  { id: '4K', longSide: 4096 },
+];
+
+// Output tiles are processed one at a time to bound memory on 4K images
+const TILE_SIZE = 512;
+// Extra source pixels around each tile so the sharpening has real neighbours
+// and tiles meet without seams
+const TILE_PADDING = 4;
+// Strength of the unsharp mask that offsets the softness of interpolation
+const SHARPEN_AMOUNT = 0.6;
+
+export const resolutionLongSide = (size: ImageSize): number =>
+  RESOLUTIONS.find((resolution) => resolution.id === size)!.longSide;
+
+const rank = (size: ImageSize) => RESOLUTIONS.findIndex((resolution) => resolution.id === size);
+
+// The resolution to ask the provider for: the requested one, capped at what it supports
+export const nativeImageSize = (requested: ImageSize, max: ImageSize): ImageSize =>
+  rank(requested) <= rank(max) ? requested : max;
+
+// Only resolutions beyond the provider's own are upscaled; within its range
+// the model's output size is kept as is
+export const needsUpscale = (size: RatioSize, requested: ImageSize, max: ImageSize): boolean =>
+  rank(requested) > rank(max) && Math.max(size.width, size.height) < resolutionLongSide(requested);
+
+// Size of `size` scaled so its longer side is `longSide`
+export const upscaledSize = (size: RatioSize, longSide: number): RatioSize => {
+  const k = longSide / Math.max(size.width, size.height);
+  return { width: Math.round(size.width * k), height: Math.round(size.height * k) };
+};
+
+// Catmull-Rom weights of the four source taps around a sample
+const cubicWeights = (t: number): number[] => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return [
+    (-t3 + 2 * t2 - t) / 2,
+    (3 * t3 - 5 * t2 + 2) / 2,
+    (-3 * t3 + 4 * t2 + t) / 2,
+    (t3 - t2) / 2,
+  ];
+};
+
+// Source taps and weights of each output line from `start` to `start + length`
+const cubicTaps = (start: number, length: number, scale: number, sourceLength: number) =>
+  Array.from({ length }, (_, i) => {
+    const u = (start + i + 0.5) / scale - 0.5;
+    const base = Math.floor(u);
+    return {
+      taps: [-1, 0, 1, 2].map((d) => Math.min(sourceLength - 1, Math.max(0, base + d))),
+      weights: cubicWeights(u - base),
+    };
+  });
+
+// The area [x, x + width) x [y, y + height) of `source` scaled by (sx, sy),
+// resampled bicubically: rows first, then columns, over only the source rows
+// the area needs
+const resampleTile = (
+  source: PixelBuffer,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  sx: number,
+  sy: number
+): PixelBuffer => {
+  const columns = cubicTaps(x, width, sx, source.width);
+  const rows = cubicTaps(y, height, sy, source.height);
+  const firstRow = rows[0].taps[0];
+  const lastRow = rows[height - 1].taps[3];
+
+  const horizontal = new Float32Array((lastRow - firstRow + 1) * width * 4);
+  for (let r = firstRow; r <= lastRow; r++) {
+    for (let i = 0; i < width; i++) {
+      const { taps, weights } = columns[i];
+      const o = ((r - firstRow) * width + i) * 4;
+      for (let k = 0; k < 4; k++) {
+        const s = (r * source.width + taps[k]) * 4;
+        for (let c = 0; c < 4; c++) horizontal[o + c] += source.data[s + c] * weights[k];
+      }
+    }
+  }
+
+  const tile = createPixels(width, height);
+  for (let j = 0; j < height; j++) {
+    const { taps, weights } = rows[j];
+    for (let i = 0; i < width; i++) {
+      for (let c = 0; c < 4; c++) {
+        let value = 0;
+        for (let k = 0; k < 4; k++) value += horizontal[((taps[k] - firstRow) * width + i) * 4 + c] * weights[k];
+        tile.data[(j * width + i) * 4 + c] = value;
+      }
+    }
+  }
+  return tile;
+};
+
+// 3x3 unsharp mask over the RGB channels, in place
+const sharpen = (image: PixelBuffer, amount: number) => {
+  const { width, height, data } = image;
+  const source = new Uint8ClampedArray(data);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let blur = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            blur += source[i + (dy * width + dx) * 4 + c];
+          }
+        }
+        data[i + c] = source[i + c] + amount * (source[i + c] - blur / 9);
+      }
+    }
+  }
+};
+
+const scaleRect = (rect: Placement, sx: number, sy: number): Placement => ({
+  x: Math.round(rect.x * sx),
+  y: Math.round(rect.y * sy),
+  width: Math.round(rect.width * sx),
+  height: Math.round(rect.height * sy),
+});
+
+export interface UpscaleResult {
+  image: PixelBuffer;
+  placement?: Placement;
+}
+
+// Enlarges the generated image to `target` tile by tile, then pastes the
+// original photo back from the source so that region is not interpolated
+// from the model's copy but drawn from the full-resolution upload.
+export const upscaleImage = async (
+  image: PixelBuffer,
+  target: RatioSize,
+  codec: PixelCodec,
+  original?: { image: PixelBuffer; placement: Placement },
+  signal?: AbortSignal
+): Promise<UpscaleResult> => {
+  const sx = target.width / image.width;
+  const sy = target.height / image.height;
+  const upscaled = createPixels(target.width, target.height);
+
+  for (let ty = 0; ty < target.height; ty += TILE_SIZE) {
+    for (let tx = 0; tx < target.width; tx += TILE_SIZE) {
+      throwIfCancelled(signal);
+      const width = Math.min(TILE_SIZE, target.width - tx);
+      const height = Math.min(TILE_SIZE, target.height - ty);
+      const x0 = Math.max(0, tx - TILE_PADDING);
+      const y0 = Math.max(0, ty - TILE_PADDING);
+      const x1 = Math.min(target.width, tx + width + TILE_PADDING);
+      const y1 = Math.min(target.height, ty + height + TILE_PADDING);
+
+      // Resample the padded tile from the matching source area at the target scale
+      const pixels = resampleTile(image, x0, y0, x1 - x0, y1 - y0, sx, sy);
+      sharpen(pixels, SHARPEN_AMOUNT);
+      for (let y = ty; y < ty + height; y++) {
+        const row = ((y - y0) * pixels.width + tx - x0) * 4;
+        upscaled.data.set(pixels.data.subarray(row, row + width * 4), (y * target.width + tx) * 4);
+      }
+
+      // Let the page breathe between tiles
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  if (!original) {
+    return { image: upscaled };
+  }
+  const placement = scaleRect(original.placement, sx, sy);
+  await restoreOriginal(upscaled, original.image, codec, { placement });
+  return { image: upscaled, placement };
+};
@@ -0,0 +1,177 @@
+import { ImageSize, ProviderId } from "../types";
+import { GenerationError } from "./errorService";
+
+// One billed model request
+export interface UsageRecord {
+  timestamp: number;
+  sessionId: string;
+  provider: ProviderId;
+  model: string;
+  imageSize: ImageSize;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+}
+
+// USD prices of a model, as listed on the provider's pricing page
+export interface ModelPrice {
+  model: string;
+  inputPerMillionTokens: number;
+  perImage: Record<ImageSize, number>;
+}
+
+export type BudgetScope = 'session' | 'day';
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  // USD; null means no cap
+  budgetCap: number | null;
+  budgetScope: BudgetScope;
+}
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: [
+    {
+      model: 'gemini-3-pro-image-preview',
+      inputPerMillionTokens: 2,
+      perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 },
+    },
+    {
+      model: 'gemini-2.5-flash-image',
+      inputPerMillionTokens: 0.3,
+      perImage: { '1K': 0.039, '2K': 0.039, '4K': 0.039 },
+    },
+  ],
+  budgetCap: null,
+  budgetScope: 'session',
+};
+
+export interface UsageTotals {
+  requests: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export type BudgetState = 'ok' | 'warn' | 'blocked';
+
+export interface BudgetCheck {
+  state: BudgetState;
+  spent: number;
+  cap: number | null;
+  estimate: number;
+}
+
+const STORAGE_KEY = 'instaexpand.usage';
+const RETENTION_DAYS = 90;
+const MAX_RECORDS = 5000;
+// Typical prompt tokens of one request (photo plus instructions), for estimates
+const ESTIMATED_INPUT_TOKENS = 1300;
+
+// New on every page load; records of this load make up the session totals
+export const SESSION_ID = `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Node, e.g. the CLI, has no local storage; usage is then not logged
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+export const loadUsage = (): UsageRecord[] => {
+  if (!hasStorage()) return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed as UsageRecord[] : [];
+  } catch (e) {
+    console.warn("Could not read the usage log", e);
+    return [];
+  }
+};
+
+// Appends a record, dropping the oldest ones past the retention period
+export const recordUsage = (record: Omit<UsageRecord, 'timestamp' | 'sessionId'>) => {
+  if (!hasStorage()) return;
+  const now = Date.now();
+  const cutoff = now - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const records = loadUsage().filter((r) => r.timestamp >= cutoff);
+  records.push({ ...record, timestamp: now, sessionId: SESSION_ID });
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(-MAX_RECORDS)));
+  } catch (e) {
+    // Tracking must never fail a generation that already succeeded
+    console.warn("Could not save usage", e);
+  }
+};
+
+export const clearUsage = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const findPrice = (prices: ModelPrice[], model: string): ModelPrice | undefined =>
+  prices.find((price) => price.model === model);
+
+// Estimated USD cost of a record; models without a price cost nothing
+export const recordCost = (record: UsageRecord, prices: ModelPrice[]): number => {
+  const price = findPrice(prices, record.model);
+  if (!price) return 0;
+  return (record.inputTokens / 1_000_000) * price.inputPerMillionTokens + record.images * price.perImage[record.imageSize];
+};
+
+export const summarizeUsage = (records: UsageRecord[], prices: ModelPrice[]): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => ({
+    requests: totals.requests + 1,
+    images: totals.images + record.images,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    latencyMs: totals.latencyMs + record.latencyMs,
+    cost: totals.cost + recordCost(record, prices),
+  }), { requests: 0, images: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 });
+
+// Local calendar day, e.g. "2025-03-14"
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Totals per day, newest first
+export const usageByDay = (records: UsageRecord[], prices: ModelPrice[]): { day: string; totals: UsageTotals }[] => {
+  const days = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const day = dayKey(record.timestamp);
+    days.set(day, [...(days.get(day) ?? []), record]);
+  }
+  return Array.from<[string, UsageRecord[]]>(days.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, dayRecords]) => ({ day, totals: summarizeUsage(dayRecords, prices) }));
+};
+
+export const recordsInScope = (records: UsageRecord[], scope: BudgetScope, now: number = Date.now()): UsageRecord[] =>
+  scope === 'session'
+    ? records.filter((record) => record.sessionId === SESSION_ID)
+    : records.filter((record) => dayKey(record.timestamp) === dayKey(now));
+
+// Lower bound: quality retries and transient-error retries cost extra
+export const estimateCost = (requests: number, model: string, imageSize: ImageSize, prices: ModelPrice[]): number => {
+  const price = findPrice(prices, model);
+  if (!price) return 0;
+  return requests * ((ESTIMATED_INPUT_TOKENS / 1_000_000) * price.inputPerMillionTokens + price.perImage[imageSize]);
+};
+
+// 'blocked' once the cap is reached, 'warn' when `estimate` would cross it
+export const checkBudget = (settings: UsageSettings, estimate: number, records: UsageRecord[] = loadUsage()): BudgetCheck => {
+  const spent = summarizeUsage(recordsInScope(records, settings.budgetScope), settings.prices).cost;
+  const cap = settings.budgetCap;
+  let state: BudgetState = 'ok';
+  if (cap !== null && spent >= cap) state = 'blocked';
+  else if (cap !== null && spent + estimate > cap) state = 'warn';
+  return { state, spent, cap, estimate };
+};
+
+// Guard run before each billed request so long runs stop at the cap
+export const assertWithinBudget = async (settings: UsageSettings): Promise<void> => {
+  if (checkBudget(settings, 0).state === 'blocked') throw new GenerationError('budget');
+};
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
@@ -1,12 +1,199 @@
+// Ratios the image model can generate
 export enum AspectRatio {
   SQUARE = '1:1',
   PORTRAIT = '3:4', // Closest to 4:5 supported by API
-  STORY = '9:16'
+  STORY = '9:16',
+  TALL = '2:3',
+  WIDE = '3:2',
+  CLASSIC = '4:3',
+  LANDSCAPE = '16:9',
+  ULTRAWIDE = '21:9'
+}
+
+export interface RatioSize {
+  width: number;
+  height: number;
+}
+
+// Output resolution tier; the longer side is about 1024, 2048 or 4096 px
+export type ImageSize = '1K' | '2K' | '4K';
+
+// Registry id of a platform format, e.g. 'instagram-portrait' or 'custom-5x2'
+export type FormatId = string;
+
+export interface FormatPreset {
+  id: FormatId;
+  platform: string;
+  label: string;
+  description: string;
+  // Exact ratio delivered and the platform's recommended upload size
+  ratio: RatioSize;
+  size: RatioSize;
+  // Closest ratio the model supports; its output is trimmed to `ratio`
+  modelRatio: AspectRatio;
+}
+
+// Rectangle in output pixels
+export interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface GeneratedImage {
   url: string;
-  ratio: AspectRatio;
+  ratio: FormatId;
+  width: number;
+  height: number;
+  // Where the original photo sits in the output, when it could be located
+  placement?: Placement;
+  quality?: QualityReport;
+  // Which backend and model produced the image
+  metadata?: ExpansionMetadata;
+  // Size before the upscale stage, when the provider could not reach the resolution
+  upscaledFrom?: RatioSize;
+  // Prompt sent to the model, and the preset it came from if unchanged
+  prompt?: string;
+  presetName?: string;
+  // Instruction of the mask refinement that produced this version
+  refinedWith?: string;
+}
+
+// How faithfully the model kept the original region (SSIM, 0..1)
+export interface QualityReport {
+  score: number;
+  threshold: number;
+  drifted: boolean;
+  attempts: number;
 }
 
 export type GenerationStatus = 'idle' | 'generating' | 'success' | 'error';
+
+// One uploaded photo in the batch queue
+export interface BatchInput {
+  file: File;
+  // Object URL used for thumbnails and compositing
+  url: string;
+}
+
+// Named, reusable prompt for the expansion
+export interface StylePreset {
+  id: string;
+  name: string;
+  prompt: string;
+  // Shipped with the app; read-only, but can be saved as a copy
+  builtIn?: boolean;
+}
+
+// Where the user pinned the original inside the target frame: its centre as
+// a fraction of the frame, and its scale relative to fitting it fully
+export interface PlacementLayout {
+  centerX: number;
+  centerY: number;
+  scale: number;
+}
+
+// Progress of one format in "generate all formats" mode
+export interface FormatJob {
+  status: GenerationStatus;
+  attempt: number;
+  result?: GeneratedImage;
+  error?: string;
+}
+
+// One candidate of a multi-variant generation
+export interface VariantJob extends FormatJob {
+  id: string;
+  // Discarded by the user; picked up by "regenerate rejected"
+  rejected: boolean;
+  // The generated result followed by its mask refinements; `result` is the selected one
+  versions?: GeneratedImage[];
+}
+
+export type ProviderId = 'gemini' | 'local' | 'offline' | 'mock';
+
+export interface ExpansionOptions {
+  // Native output size requested from the backend, e.g. "1K"
+  imageSize?: string;
+}
+
+// Explicit outpainting input: the original already placed on the final
+// canvas, plus a mask of the area to fill
+export interface PaddedCanvas {
+  // PNG with transparent margins, base64 without the data URL prefix
+  imageBase64: string;
+  // White where content must be generated, black over the original
+  maskBase64: string;
+  width: number;
+  height: number;
+  placement: Placement;
+}
+
+export interface ExpansionRequest {
+  imageBase64: string;
+  mimeType: string;
+  targetRatio: AspectRatio;
+  // Exact ratio of the format, for providers that accept any size
+  exactRatio: RatioSize;
+  // Requested resolution, never above the provider's maxImageSize
+  imageSize?: ImageSize;
+  prompt: string;
+  // When set, the provider must fill this canvas instead of choosing a layout
+  canvas?: PaddedCanvas;
+  options?: ExpansionOptions;
+  // Aborts the request; providers reject with a 'cancelled' GenerationError
+  signal?: AbortSignal;
+}
+
+export interface ExpansionMetadata {
+  provider: ProviderId;
+  model: string;
+  latencyMs: number;
+  // Set when the provider failed and the offline fill stood in
+  fallbackReason?: string;
+}
+
+export interface ExpansionResponse {
+  // Data URLs, best candidate first
+  images: string[];
+  metadata: ExpansionMetadata;
+}
+
+// A backend that can outpaint an image to a target ratio
+export interface ExpansionProvider {
+  id: ProviderId;
+  label: string;
+  // Providers that can output any size get canvases at the exact target
+  // ratio; the others get the closest ratio the model supports
+  supportsAnyRatio: boolean;
+  // Highest resolution the provider generates natively; above it the app upscales
+  maxImageSize: ImageSize;
+  // Longer side of the canvases it is sent, when the provider sets its own
+  maxCanvasSide?: number;
+  expand: (request: ExpansionRequest) => Promise<ExpansionResponse>;
+}
+
+// One generated output kept in the local history
+export interface HistoryOutput {
+  ratio: FormatId;
+  image: Blob;
+  width: number;
+  height: number;
+  quality?: QualityReport;
+}
+
+// A saved generation: enough to browse, re-download or re-run it
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  original: Blob;
+  outputs: HistoryOutput[];
+  // Small JPEG preview of the first output
+  thumbnail: Blob;
+  prompt: string;
+  presetName?: string;
+  provider: ProviderId;
+  model: string;
+  layout: PlacementLayout | null;
+}
@@ -2,7 +2,7 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
@@ -10,9 +10,12 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The CLI (SSR build) reads the real environment at runtime
+      define: isSsrBuild ? {} : {
+        // The .env.local key is a dev convenience only; builds never contain a
+        // key and get one from AI Studio or the settings panel at runtime
+        'process.env.API_KEY': JSON.stringify(mode === 'development' ? env.GEMINI_API_KEY ?? '' : ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(mode === 'development' ? env.GEMINI_API_KEY ?? '' : '')
       },
       resolve: {
         alias: {